@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isPrismaError, prisma } from "@/lib/prisma";
+import { isAdminRequest } from "@/lib/auth";
+import { CategoryUpdateSchema } from "@/lib/categories";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> },
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { slug } = await params;
+
+  try {
+    const parsed = CategoryUpdateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid category", issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const existing = await prisma.category.findUnique({ where: { slug } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 },
+      );
+    }
+
+    const renaming = !!parsed.data.name && parsed.data.name !== existing.name;
+    if (renaming) {
+      const taken = await prisma.category.findFirst({
+        where: { name: parsed.data.name, slug: { not: slug } },
+      });
+      if (taken) {
+        return NextResponse.json(
+          { error: "A category with this name already exists" },
+          { status: 409 },
+        );
+      }
+    }
+
+    // Tips store the display name, so a rename has to follow through in
+    // the same transaction
+    const { category, renamedTips } = await prisma.$transaction(async (tx) => {
+      const category = await tx.category.update({
+        where: { slug },
+        data: parsed.data,
+      });
+      if (!renaming) return { category, renamedTips: 0 };
+
+      const result = await tx.tip.updateMany({
+        where: { category: existing.name },
+        data: { category: category.name, contentUpdatedAt: new Date() },
+      });
+      return { category, renamedTips: result.count };
+    });
+
+    return NextResponse.json({ ...category, renamedTips });
+  } catch (error) {
+    // A concurrent rename took the name first
+    if (isPrismaError(error, "P2002")) {
+      return NextResponse.json(
+        { error: "A category with this name already exists" },
+        { status: 409 },
+      );
+    }
+    console.error("Error updating category:", error);
+    return NextResponse.json(
+      { error: "Failed to update category" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Deactivates rather than deletes, so existing tips keep a valid category.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> },
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { slug } = await params;
+
+  try {
+    const existing = await prisma.category.findUnique({ where: { slug } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 },
+      );
+    }
+
+    const category = await prisma.category.update({
+      where: { slug },
+      data: { active: false },
+    });
+
+    return NextResponse.json(category);
+  } catch (error) {
+    console.error("Error deactivating category:", error);
+    return NextResponse.json(
+      { error: "Failed to deactivate category" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { isAdminRequest } from "@/lib/auth";
+import { CategoryInputSchema, getCategories } from "@/lib/categories";
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const categories = await getCategories({ includeInactive: true });
+    return NextResponse.json({ items: categories });
+  } catch (error) {
+    console.error("Error fetching categories:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch categories" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const parsed = CategoryInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid category", issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const existing = await prisma.category.findFirst({
+      where: {
+        OR: [{ slug: parsed.data.slug }, { name: parsed.data.name }],
+      },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: "A category with this slug or name already exists" },
+        { status: 409 },
+      );
+    }
+
+    const category = await prisma.category.create({ data: parsed.data });
+    return NextResponse.json(category, { status: 201 });
+  } catch (error) {
+    console.error("Error creating category:", error);
+    return NextResponse.json(
+      { error: "Failed to create category" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { isAdminRequest } from "@/lib/auth";
+import { groupUsage, totalUsage, type UsageTotals } from "@/lib/ai-usage";
+
+const CostParamsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+function toApiTotals(totals: UsageTotals) {
+  return {
+    calls: totals.calls,
+    prompt_tokens: totals.promptTokens,
+    completion_tokens: totals.completionTokens,
+    cost_usd: totals.costUsd,
+    unpriced_calls: totals.unpricedCalls,
+  };
+}
+
+function costPerTip(costUsd: number, publishedTips: number) {
+  return publishedTips > 0 ? costUsd / publishedTips : null;
+}
+
+/**
+ * Generation spend over the last `days` days, per UTC day and per provider.
+ * Cost per published tip divides a job's spend by the tips from that job
+ * that have since been published, so it includes failed and held drafts.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = CostParamsSchema.safeParse(
+    Object.fromEntries(searchParams.entries()),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid parameters", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const since = new Date(Date.now() - parsed.data.days * 24 * 60 * 60 * 1000);
+
+  try {
+    const jobs = await prisma.job.findMany({
+      where: { createdAt: { gte: since } },
+      select: { id: true, createdAt: true, usage: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const publishedByJob = await prisma.tip.groupBy({
+      by: ["jobId"],
+      where: {
+        jobId: { in: jobs.map((job) => job.id) },
+        status: "published",
+      },
+      _count: { _all: true },
+    });
+    const publishedCount = new Map(
+      publishedByJob.map((group) => [group.jobId, group._count._all]),
+    );
+
+    const entries = jobs.flatMap((job) => job.usage);
+    const totals = totalUsage(entries);
+    const publishedTips = jobs.reduce(
+      (sum, job) => sum + (publishedCount.get(job.id) ?? 0),
+      0,
+    );
+
+    const days = new Map<string, typeof jobs>();
+    for (const job of jobs) {
+      const day = job.createdAt.toISOString().slice(0, 10);
+      days.set(day, [...(days.get(day) ?? []), job]);
+    }
+
+    const byDay = [...days].map(([date, dayJobs]) => {
+      const dayTotals = totalUsage(dayJobs.flatMap((job) => job.usage));
+      const dayPublished = dayJobs.reduce(
+        (sum, job) => sum + (publishedCount.get(job.id) ?? 0),
+        0,
+      );
+      return {
+        date,
+        jobs: dayJobs.length,
+        published_tips: dayPublished,
+        ...toApiTotals(dayTotals),
+        cost_per_published_tip: costPerTip(dayTotals.costUsd, dayPublished),
+      };
+    });
+
+    const byProvider = Object.entries(
+      groupUsage(entries, (entry) => entry.provider),
+    ).map(([provider, providerTotals]) => ({
+      provider,
+      ...toApiTotals(providerTotals),
+    }));
+
+    return NextResponse.json({
+      days: parsed.data.days,
+      since: since.toISOString(),
+      totals: {
+        jobs: jobs.length,
+        published_tips: publishedTips,
+        ...toApiTotals(totals),
+        cost_per_published_tip: costPerTip(totals.costUsd, publishedTips),
+      },
+      by_day: byDay,
+      by_provider: byProvider,
+    });
+  } catch (error) {
+    console.error("Error fetching generation costs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch generation costs" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { isAdminRequest } from "@/lib/auth";
+
+const EngagementParamsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+type Totals = {
+  impressions: number;
+  detail_opens: number;
+  dwell_events: number;
+  dwell_ms: number;
+  code_copies: number;
+  deep_link_opens: number;
+};
+
+function withRates(totals: Totals) {
+  return {
+    ...totals,
+    // Share of impressions that led to the detail view
+    open_rate: totals.impressions
+      ? totals.detail_opens / totals.impressions
+      : null,
+    avg_dwell_ms: totals.dwell_events
+      ? totals.dwell_ms / totals.dwell_events
+      : null,
+  };
+}
+
+/**
+ * Engagement per tip over the last `days` UTC days, most viewed first,
+ * from the daily counters that POST /api/events maintains.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = EngagementParamsSchema.safeParse(
+    Object.fromEntries(searchParams.entries()),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid parameters", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const since = new Date(Date.now() - (parsed.data.days - 1) * 86_400_000)
+    .toISOString()
+    .slice(0, 10);
+
+  try {
+    const groups = await prisma.tipDailyStat.groupBy({
+      by: ["tipId"],
+      where: { date: { gte: since } },
+      _sum: {
+        impressions: true,
+        detailOpens: true,
+        dwellEvents: true,
+        dwellMs: true,
+        codeCopies: true,
+        deepLinkOpens: true,
+      },
+    });
+
+    const perTip = groups
+      .map((group) => ({
+        tipId: group.tipId,
+        totals: {
+          impressions: group._sum.impressions ?? 0,
+          detail_opens: group._sum.detailOpens ?? 0,
+          dwell_events: group._sum.dwellEvents ?? 0,
+          dwell_ms: group._sum.dwellMs ?? 0,
+          code_copies: group._sum.codeCopies ?? 0,
+          deep_link_opens: group._sum.deepLinkOpens ?? 0,
+        },
+      }))
+      .sort((a, b) => b.totals.impressions - a.totals.impressions);
+
+    const top = perTip.slice(0, parsed.data.limit);
+    const tips = await prisma.tip.findMany({
+      where: { id: { in: top.map((entry) => entry.tipId) } },
+      select: { id: true, tipText: true, category: true, sharesCount: true },
+    });
+    const tipById = new Map(tips.map((tip) => [tip.id, tip]));
+
+    const totals = perTip.reduce<Totals>(
+      (sum, { totals }) => ({
+        impressions: sum.impressions + totals.impressions,
+        detail_opens: sum.detail_opens + totals.detail_opens,
+        dwell_events: sum.dwell_events + totals.dwell_events,
+        dwell_ms: sum.dwell_ms + totals.dwell_ms,
+        code_copies: sum.code_copies + totals.code_copies,
+        deep_link_opens: sum.deep_link_opens + totals.deep_link_opens,
+      }),
+      {
+        impressions: 0,
+        detail_opens: 0,
+        dwell_events: 0,
+        dwell_ms: 0,
+        code_copies: 0,
+        deep_link_opens: 0,
+      },
+    );
+
+    return NextResponse.json({
+      days: parsed.data.days,
+      since,
+      totals: { tips: perTip.length, ...withRates(totals) },
+      items: top.map(({ tipId, totals }) => {
+        const tip = tipById.get(tipId);
+        return {
+          tip_id: tipId,
+          tip_text: tip?.tipText ?? null,
+          category: tip?.category ?? null,
+          shares_count: tip?.sharesCount ?? 0,
+          ...withRates(totals),
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Error fetching engagement:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch engagement" },
+      { status: 500 },
+    );
+  }
+}
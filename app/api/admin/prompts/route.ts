@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/auth";
+import {
+  loadPromptVersionStats,
+  loadPromptWeights,
+  PROMPT_TEMPLATES,
+} from "@/lib/prompt-templates";
+
+/**
+ * Prompt template versions with their A/B weight and share performance.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const weights = loadPromptWeights();
+    const stats = await loadPromptVersionStats();
+
+    return NextResponse.json({
+      templates: PROMPT_TEMPLATES.map((template) => ({
+        version: template.version,
+        description: template.description,
+        weight: weights[template.version] ?? 0,
+      })),
+      stats: stats.map((entry) => ({
+        version: entry.version,
+        weight: entry.weight,
+        published_tips: entry.publishedTips,
+        shared_tips: entry.sharedTips,
+        shares: entry.shares,
+        share_actions: entry.shareActions,
+        share_rate: entry.shareRate,
+        shared_tip_rate: entry.sharedTipRate,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching prompt stats:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch prompt stats" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getCategories } from "@/lib/categories";
+
+export async function GET() {
+  try {
+    const categories = await getCategories();
+
+    return NextResponse.json({
+      items: categories.map((category) => ({
+        slug: category.slug,
+        name: category.name,
+        icon: category.icon,
+        color: category.color,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching categories:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch categories" },
+      { status: 500 },
+    );
+  }
+}
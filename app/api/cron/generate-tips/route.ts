@@ -1,8 +1,147 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { prisma } from "@/lib/prisma";
-import { generateTips } from "@/lib/ai";
+import { generateTips, type GeneratedTip } from "@/lib/ai";
+import { AI_PROVIDERS, type ProviderAttempt } from "@/lib/ai-provider";
+import type {
+  SalvageRejection,
+  SalvageRepair,
+  SchemaIssue,
+} from "@/lib/tip-salvage";
+import { findCategory, getCategories } from "@/lib/categories";
+import {
+  dedupeAgainstCorpus,
+  dedupeRevisions,
+  fingerprintOf,
+  loadCorpusFingerprints,
+  type DedupRejection,
+} from "@/lib/dedup";
+import { loadRecentExclusions, usedValuesOf } from "@/lib/exclusions";
+import {
+  scheduleCategories,
+  summarizeDecision,
+} from "@/lib/category-scheduler";
+import { lintBatch, qualityThresholds } from "@/lib/tip-quality";
+import { analyzeCodeSnippet } from "@/lib/code-syntax";
+import { reviewTips } from "@/lib/tip-review";
+import { groupUsage, totalUsage, type TokenUsage } from "@/lib/ai-usage";
+import {
+  findPromptTemplate,
+  selectPromptTemplate,
+} from "@/lib/prompt-templates";
+
+// Leaves room for retries and a provider fallback within one invocation
+export const maxDuration = 300;
 
 const TIPS_PER_BATCH = 7;
+const MAX_TIPS_PER_BATCH = 15;
+const MAX_REGENERATION_ROUNDS = 1;
+// Kept back from maxDuration for saving the tips after the model calls
+const PERSIST_RESERVE_MS = 30_000;
+
+const GenerateParamsSchema = z.object({
+  count: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_TIPS_PER_BATCH)
+    .default(TIPS_PER_BATCH),
+  categories: z
+    .string()
+    .transform((value) =>
+      value
+        .split(",")
+        .map((c) => c.trim())
+        .filter(Boolean),
+    )
+    .pipe(z.array(z.string()).min(1))
+    .optional(),
+  provider: z.enum(AI_PROVIDERS).optional(),
+  model: z.string().trim().min(1).optional(),
+  dry_run: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  // Pins the prompt template instead of using the A/B split
+  prompt_version: z.string().trim().min(1).optional(),
+  // Critique → revise pass; defaults to AI_REVIEW_ENABLED when omitted
+  review: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) =>
+      value === undefined
+        ? process.env.AI_REVIEW_ENABLED === "true"
+        : value === "true",
+    ),
+});
+
+type JobError = {
+  step: string;
+  error: string;
+  tip?: string;
+  check?: string;
+  matchedTipId?: string;
+  issues?: SchemaIssue[];
+};
+
+type GenerationLog = {
+  phase: "initial" | "regeneration";
+  model: string;
+  attempts: ProviderAttempt[];
+  tips: string[];
+  repaired: SalvageRepair[];
+};
+
+function logGeneration(
+  phase: GenerationLog["phase"],
+  result: {
+    model: string;
+    attempts: ProviderAttempt[];
+    tips: GeneratedTip[];
+    repaired: SalvageRepair[];
+  },
+): GenerationLog {
+  return {
+    phase,
+    model: result.model,
+    attempts: result.attempts,
+    tips: result.tips.map((tip) => tip.tip_text),
+    repaired: result.repaired,
+  };
+}
+
+function usageData(usage: TokenUsage[]) {
+  return { usage, costUsd: totalUsage(usage).costUsd };
+}
+
+function summarizeUsage(usage: TokenUsage[]) {
+  return {
+    ...totalUsage(usage),
+    byModel: groupUsage(usage, (entry) => entry.modelId),
+    byPhase: groupUsage(usage, (entry) => entry.phase),
+  };
+}
+
+function schemaRejectionToError(rejection: SalvageRejection): JobError {
+  return {
+    step: "schema",
+    error: rejection.issues
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join("; "),
+    tip: rejection.tipText,
+    issues: rejection.issues,
+  };
+}
+
+function rejectionToError(rejection: DedupRejection): JobError {
+  return {
+    step: "dedup",
+    error: rejection.match.reason,
+    tip: rejection.tip.tip_text,
+    check: rejection.match.check,
+    matchedTipId: rejection.match.matchedTipId,
+  };
+}
 
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -16,26 +155,165 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  const { searchParams } = new URL(request.url);
+  const parsed = GenerateParamsSchema.safeParse(
+    Object.fromEntries(searchParams.entries()),
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid parameters", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const params = parsed.data;
+  const count = params.count;
+
+  // Categories may be given by slug or name; only active ones are allowed
+  let requestedCategories: string[] | undefined;
+  if (params.categories) {
+    const active = await getCategories();
+    const unknown = params.categories.filter((c) => !findCategory(active, c));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown or inactive categories: ${unknown.join(", ")}` },
+        { status: 400 },
+      );
+    }
+    requestedCategories = params.categories.map(
+      (c) => findCategory(active, c)!.name,
+    );
+  }
+  // One deadline across generation, regeneration and review, so a slow
+  // provider chain cannot run the invocation past maxDuration
+  const modelOverride = {
+    provider: params.provider,
+    model: params.model,
+    deadline: startTime + maxDuration * 1000 - PERSIST_RESERVE_MS,
+  };
+
+  // One template per job so every tip in the batch shares an A/B arm
+  const promptTemplate = params.prompt_version
+    ? findPromptTemplate(params.prompt_version)
+    : selectPromptTemplate();
+  if (!promptTemplate) {
+    return NextResponse.json(
+      { error: `Unknown prompt version: ${params.prompt_version}` },
+      { status: 400 },
+    );
+  }
+
   const job = await prisma.job.create({
     data: {
       status: "running",
+      kind: "generation",
+      promptVersion: promptTemplate.version,
+      params: {
+        count,
+        categories: requestedCategories ?? null,
+        provider: params.provider ?? null,
+        model: params.model ?? null,
+        dryRun: params.dry_run,
+        review: params.review,
+      },
       summary: { started: new Date().toISOString(), phase: "ai_generation" },
     },
   });
 
   console.log(`[generate-tips] Job created: ${job.id}`);
 
-  const errors: Array<{ step: string; error: string }> = [];
+  const errors: JobError[] = [];
+  const usage: TokenUsage[] = [];
 
   try {
+    const recent = await loadRecentExclusions();
+    console.log(
+      `[generate-tips] Excluding ${recent.techs.length} techs, ${recent.companies.length} companies, ${recent.headlinePatterns.length} headline patterns from the last ${recent.windowDays} days`,
+    );
+
+    // Explicit categories bypass the scheduler
+    const schedule = requestedCategories
+      ? null
+      : await scheduleCategories(count);
+    const categories = requestedCategories ?? schedule?.selected;
+    console.log(
+      `[generate-tips] ${schedule ? "Scheduled" : "Requested"} categories: ${categories?.join(", ")}`,
+    );
+
     console.log("[generate-tips] Starting AI generation...");
-    const aiResult = await generateTips(TIPS_PER_BATCH);
+    const aiResult = await generateTips(
+      count,
+      categories,
+      recent,
+      modelOverride,
+      promptTemplate.version,
+    );
     console.log(`[generate-tips] AI generated ${aiResult.tips.length} tips`);
+    usage.push(...aiResult.usage);
+    const generations = [logGeneration("initial", aiResult)];
+    errors.push(...aiResult.rejected.map(schemaRejectionToError));
+
+    const corpus = await loadCorpusFingerprints();
+    let { accepted, rejected } = dedupeAgainstCorpus(aiResult.tips, corpus);
+    let rejectedCount = rejected.length;
+    errors.push(...rejected.map(rejectionToError));
 
-    if (aiResult.error || aiResult.tips.length === 0) {
+    for (
+      let round = 0;
+      round < MAX_REGENERATION_ROUNDS && rejected.length > 0 && !aiResult.error;
+      round++
+    ) {
+      console.log(
+        `[generate-tips] ${rejected.length} tips collided with existing tips, regenerating`,
+      );
+
+      const batchUsed = usedValuesOf([
+        ...accepted,
+        ...rejected.map((r) => r.tip),
+      ]);
+      const retry = await generateTips(
+        rejected.length,
+        rejected.map((r) => r.tip.category),
+        {
+          techs: [...batchUsed.techs, ...recent.techs],
+          companies: [...batchUsed.companies, ...recent.companies],
+          headlinePatterns: [
+            ...batchUsed.headlinePatterns,
+            ...recent.headlinePatterns,
+          ],
+        },
+        modelOverride,
+        promptTemplate.version,
+      );
+
+      generations.push(logGeneration("regeneration", retry));
+      usage.push(...retry.usage);
+      errors.push(...retry.rejected.map(schemaRejectionToError));
+
+      if (retry.error) {
+        errors.push({ step: "regeneration", error: retry.error });
+        break;
+      }
+
+      const retried = dedupeAgainstCorpus(retry.tips, [
+        ...corpus,
+        ...accepted.map(fingerprintOf),
+      ]);
+      accepted = [...accepted, ...retried.accepted];
+      rejected = retried.rejected;
+      rejectedCount += rejected.length;
+      errors.push(...rejected.map(rejectionToError));
+    }
+
+    if (aiResult.error || accepted.length === 0) {
       errors.push({
         step: "ai_generation",
-        error: aiResult.error || "No tips generated",
+        error:
+          aiResult.error ||
+          (rejectedCount > 0
+            ? "All generated tips collided with existing tips"
+            : "No tips generated"),
       });
 
       await prisma.job.update({
@@ -44,12 +322,21 @@ export async function GET(request: NextRequest) {
           status: "failed",
           finishedAt: new Date(),
           errors: errors,
+          ...usageData(usage),
           summary: {
             started: job.startedAt,
             finished: new Date().toISOString(),
             model: aiResult.model,
+            generations,
+            usage: summarizeUsage(usage),
             successCount: 0,
-            failCount: TIPS_PER_BATCH,
+            failCount: count,
+            rejectedCount,
+            categorySchedule: schedule ? summarizeDecision(schedule) : null,
+            exclusions: {
+              ...aiResult.exclusions,
+              windowDays: recent.windowDays,
+            },
             durationMs: Date.now() - startTime,
           },
         },
@@ -62,29 +349,139 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    let reviewSummary = null;
+    if (params.review) {
+      console.log("[generate-tips] Running critique pass...");
+      const review = await reviewTips(accepted, modelOverride);
+      const { tips, reverted } = dedupeRevisions(accepted, review.tips, corpus);
+      accepted = tips;
+      usage.push(...review.usage);
+      errors.push(
+        ...reverted.map((r) => ({ ...rejectionToError(r), step: "review" })),
+      );
+      reviewSummary = {
+        model: review.model,
+        attempts: review.attempts,
+        failedCount: review.failedCount,
+        revisedCount: review.revisedCount - reverted.length,
+        revertedCount: reverted.length,
+      };
+      if (review.error) errors.push({ step: "review", error: review.error });
+    }
+
+    const quality = lintBatch(accepted);
+    const thresholds = qualityThresholds();
+
+    if (params.dry_run) {
+      // Dry runs never write `used`, so they do not affect later exclusions
+      await prisma.job.update({
+        where: { id: job.id },
+        data: {
+          status: "completed",
+          finishedAt: new Date(),
+          errors: errors.length > 0 ? errors : undefined,
+          ...usageData(usage),
+          summary: {
+            started: job.startedAt,
+            finished: new Date().toISOString(),
+            model: aiResult.model,
+            generations,
+            usage: summarizeUsage(usage),
+            dryRun: true,
+            totalGenerated: aiResult.tips.length,
+            acceptedCount: accepted.length,
+            rejectedCount,
+            categorySchedule: schedule ? summarizeDecision(schedule) : null,
+            review: reviewSummary,
+            exclusions: {
+              ...aiResult.exclusions,
+              windowDays: recent.windowDays,
+            },
+            durationMs: Date.now() - startTime,
+            phase: "dry_run",
+          },
+        },
+      });
+
+      console.log(
+        `[generate-tips] Dry run completed with ${accepted.length} tips`,
+      );
+
+      return NextResponse.json({
+        success: true,
+        jobId: job.id,
+        dryRun: true,
+        tips: accepted.map((tip, i) => ({ ...tip, quality: quality[i] })),
+        errors,
+        summary: {
+          totalGenerated: aiResult.tips.length,
+          rejectedCount,
+          review: reviewSummary,
+          exclusions: aiResult.exclusions,
+          categories,
+          model: aiResult.model,
+          promptVersion: promptTemplate.version,
+          durationMs: Date.now() - startTime,
+        },
+      });
+    }
+
     console.log("[generate-tips] Persisting tips as drafts...");
 
-    const tipCreatePromises = aiResult.tips.map((generatedTip) =>
-      prisma.tip.create({
+    const tipCreatePromises = accepted.map((generatedTip, i) => {
+      const code = analyzeCodeSnippet(generatedTip.code_snippet);
+      return prisma.tip.create({
         data: {
           tipText: generatedTip.tip_text,
           tipSummary: generatedTip.tip_summary,
           tipDetail: generatedTip.tip_detail,
-          codeSnippet: generatedTip.code_snippet,
+          detailSections: generatedTip.detail_sections,
+          codeSnippet: code.code,
+          codeLanguage: code.language,
+          codeHeader: code.header,
+          // Left unset for languages without a local parser
+          codeSyntaxValid: code.syntax.checked ? code.syntax.valid : null,
+          codeSyntaxError: code.syntax.error,
           category: generatedTip.category,
           tags: generatedTip.tags,
+          uniqueTopic: generatedTip.unique_topic,
+          primaryTech: generatedTip.primary_tech,
+          company: generatedTip.company,
+          headlinePattern: generatedTip.headline_pattern,
+          claimProvenance: generatedTip.claim_provenance,
+          critique: generatedTip.critique,
+          qualityScore: quality[i].score,
+          qualityViolations: quality[i].violations,
           source: "ai",
-          status: "draft",
-          aiModel: aiResult.model,
+          // Tips between the thresholds stay drafts that enrich-tip won't publish
+          status: quality[i].score < thresholds.fail ? "failed" : "draft",
+          aiModel: generatedTip.ai_model,
+          promptVersion: generatedTip.prompt_version,
           jobId: job.id,
+          contentUpdatedAt: new Date(),
         },
-      }),
-    );
+      });
+    });
 
     const createdTips = await Promise.all(tipCreatePromises);
-    const successCount = createdTips.length;
+    const draftTips = createdTips.filter((tip) => tip.status === "draft");
+    // Only tips that cleared the publish threshold count as a success
+    const passedTips = draftTips.filter(
+      (tip) => (tip.qualityScore ?? 100) >= thresholds.publish,
+    );
+    const successCount = passedTips.length;
+    const qualitySummary = {
+      thresholds,
+      failedCount: createdTips.length - draftTips.length,
+      heldCount: draftTips.length - passedTips.length,
+      averageScore: Math.round(
+        quality.reduce((sum, report) => sum + report.score, 0) / quality.length,
+      ),
+    };
 
-    console.log(`[generate-tips] Created ${successCount} draft tips`);
+    console.log(
+      `[generate-tips] Created ${createdTips.length} tips: ${successCount} passed, ${qualitySummary.failedCount} failed quality, ${qualitySummary.heldCount} held`,
+    );
 
     await prisma.job.update({
       where: { id: job.id },
@@ -92,13 +489,24 @@ export async function GET(request: NextRequest) {
         status: "completed",
         finishedAt: new Date(),
         tipsCount: successCount,
+        errors: errors.length > 0 ? errors : undefined,
+        ...usageData(usage),
         summary: {
           started: job.startedAt,
           finished: new Date().toISOString(),
           model: aiResult.model,
+          generations,
+          usage: summarizeUsage(usage),
           successCount,
-          failCount: 0,
+          failCount: qualitySummary.failedCount,
+          heldCount: qualitySummary.heldCount,
           totalGenerated: aiResult.tips.length,
+          rejectedCount,
+          categorySchedule: schedule ? summarizeDecision(schedule) : null,
+          review: reviewSummary,
+          exclusions: { ...aiResult.exclusions, windowDays: recent.windowDays },
+          used: { ...usedValuesOf(accepted) },
+          quality: qualitySummary,
           durationMs: Date.now() - startTime,
           phase: "ai_complete",
           note: "Tips created as drafts. Run enrich-tip jobs to publish.",
@@ -114,11 +522,19 @@ export async function GET(request: NextRequest) {
       jobId: job.id,
       summary: {
         successCount,
-        failCount: 0,
+        failCount: qualitySummary.failedCount,
+        heldCount: qualitySummary.heldCount,
         totalGenerated: aiResult.tips.length,
+        rejectedCount,
+        quality: qualitySummary,
+        review: reviewSummary,
+        usage: totalUsage(usage),
+        exclusions: aiResult.exclusions,
+        categories,
         model: aiResult.model,
+        promptVersion: promptTemplate.version,
         durationMs,
-        tipIds: createdTips.map((t) => t.id),
+        tipIds: draftTips.map((t) => t.id),
       },
       nextStep: "Call POST /api/jobs/enrich-tip for each tipId to publish",
     });
@@ -137,9 +553,11 @@ export async function GET(request: NextRequest) {
             error: error instanceof Error ? error.message : "Unknown error",
           },
         ],
+        ...usageData(usage),
         summary: {
           started: job.startedAt,
           finished: new Date().toISOString(),
+          usage: summarizeUsage(usage),
           durationMs,
         },
       },
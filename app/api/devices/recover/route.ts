@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { DeviceIdSchema } from "@/lib/identity";
+import { startDeviceRecovery } from "@/lib/device-recovery";
+
+const RecoverDeviceSchema = z.object({
+  device_id: DeviceIdSchema,
+});
+
+/**
+ * Starts recovery for a device whose app lost its device token, e.g. after
+ * a reinstall. A one-time code is pushed to the push token on file; sending
+ * it as `recovery_code` to /api/devices/register issues a new token. Needs
+ * a push token that still reaches the install; without one, the app has to
+ * keep its token where the device id is kept (the iOS keychain, Android
+ * backup) so both survive a reinstall.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = RecoverDeviceSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid parameters", issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const result = await startDeviceRecovery(parsed.data.device_id);
+    if (!result.ok) {
+      const [status, error] = {
+        unknown_device: [404, "Device not found"],
+        no_push_token: [409, "No push token on file to send a code to"],
+        too_soon: [429, "A code was sent less than a minute ago"],
+        send_failed: [502, "Could not deliver the recovery code"],
+      }[result.reason] as [number, string];
+      return NextResponse.json({ error, reason: result.reason }, { status });
+    }
+
+    console.log(`[devices] Sent recovery code for ${parsed.data.device_id}`);
+    return NextResponse.json(
+      { sent: true, expires_at: result.expiresAt.toISOString() },
+      { status: 202 },
+    );
+  } catch (error) {
+    console.error("[devices] Recovery error:", error);
+    return NextResponse.json(
+      { error: "Failed to start device recovery" },
+      { status: 500 },
+    );
+  }
+}
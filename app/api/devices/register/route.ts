@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import {
+  authenticateDevice,
+  deviceAuthError,
+  issueDeviceToken,
+} from "@/lib/device-tokens";
+import {
+  DeviceIdSchema,
+  EmailTakenError,
+  registerDevice,
+} from "@/lib/identity";
+import { redeemRecoveryCode } from "@/lib/device-recovery";
+
+const RegisterDeviceSchema = z.object({
+  device_id: DeviceIdSchema,
+  email: z.string().email().optional(),
+  device_type: z.string().max(32).optional(),
+  push_token: z.string().min(1).optional(),
+  // From /api/devices/recover, in place of a lost device token
+  recovery_code: z
+    .string()
+    .regex(/^\d{6}$/)
+    .optional(),
+});
+
+/**
+ * Registers an app install and returns the server id of its user with a
+ * device token for the write endpoints. Calling it again with the same
+ * `device_id` returns the same user and a fresh token; once a device holds
+ * a token, that call must send it, expired or not, so nobody else can claim
+ * the device. An install that lost its token sends the `recovery_code`
+ * pushed by /api/devices/recover instead. Each new token revokes the one
+ * before.
+ *
+ * Devices carried over by the merge-device-users job hold no token yet, and
+ * their ids were sent in the clear as `user_id`. Where the old user had a
+ * push token, which was never returned to anyone, claiming the device must
+ * send it as `push_token`. Legacy devices without one can be claimed with
+ * the id alone; they only hold anonymous share history, which we accept.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = RegisterDeviceSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid parameters", issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { deviceId: parsed.data.device_id },
+      select: { tokenVersion: true, user: { select: { pushToken: true } } },
+    });
+    if (
+      device &&
+      device.tokenVersion === 0 &&
+      device.user.pushToken &&
+      parsed.data.push_token !== device.user.pushToken
+    ) {
+      return NextResponse.json(
+        { error: "push_token required to claim this device" },
+        { status: 401 },
+      );
+    }
+    if (device && device.tokenVersion > 0 && parsed.data.recovery_code) {
+      const recovered = await redeemRecoveryCode(
+        parsed.data.device_id,
+        parsed.data.recovery_code,
+      );
+      if (!recovered) {
+        return NextResponse.json(
+          { error: "Invalid or expired recovery_code" },
+          { status: 401 },
+        );
+      }
+    } else if (device && device.tokenVersion > 0) {
+      const auth = await authenticateDevice(request, { allowExpired: true });
+      if (!auth.ok) {
+        return NextResponse.json(deviceAuthError(auth.reason), {
+          status: 401,
+        });
+      }
+      if (auth.deviceId !== parsed.data.device_id) {
+        return NextResponse.json(
+          { error: "Device token belongs to another device" },
+          { status: 403 },
+        );
+      }
+    }
+
+    const result = await registerDevice({
+      deviceId: parsed.data.device_id,
+      email: parsed.data.email,
+      deviceType: parsed.data.device_type,
+      pushToken: parsed.data.push_token,
+    });
+    if (result.created) {
+      console.log(`[devices] Registered new user ${result.userId}`);
+    }
+    const { token, expiresAt } = await issueDeviceToken(result.deviceId);
+
+    return NextResponse.json(
+      {
+        user_id: result.userId,
+        device_id: result.deviceId,
+        created: result.created,
+        device_token: token,
+        expires_at: expiresAt.toISOString(),
+      },
+      { status: result.created ? 201 : 200 },
+    );
+  } catch (error) {
+    if (error instanceof EmailTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("[devices] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to register device" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EventBatchSchema, ingestEvents } from "@/lib/events";
+import {
+  authenticateDevice,
+  deviceAuthError,
+  tokenMatchesUserId,
+} from "@/lib/device-tokens";
+
+/**
+ * Batched engagement events from the app. Each event is validated on its
+ * own: invalid or unknown-tip events come back in `rejected` while the rest
+ * of the batch is still counted, and resent event ids count once per
+ * device. Every batch needs a device token, so counters cannot be inflated
+ * anonymously; views are recorded for the token's user.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateDevice(request);
+    if (!auth.ok) {
+      return NextResponse.json(deviceAuthError(auth.reason), { status: 401 });
+    }
+
+    const parsed = EventBatchSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid events", issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (!tokenMatchesUserId(auth, parsed.data.user_id)) {
+      return NextResponse.json(
+        { error: "user_id does not match the device token" },
+        { status: 403 },
+      );
+    }
+
+    const result = await ingestEvents(parsed.data.events, auth);
+    console.log(
+      `[events] Accepted ${result.accepted}, ${result.duplicates} duplicates, ${result.rejected.length} rejected`,
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[events] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to record events" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { formatTip, PUBLIC_TIP_SELECT } from "@/lib/tip-format";
+import { resolveRequestLocale } from "@/lib/locales";
+import { loadTranslations } from "@/lib/translate";
+import {
+  decodeFeedCursor,
+  encodeFeedCursor,
+  isServed,
+  loadFeedWeights,
+  loadUserSignals,
+  rankTips,
+  withServed,
+} from "@/lib/feed";
+import {
+  authenticateDevice,
+  deviceAuthError,
+  tokenMatchesUserId,
+} from "@/lib/device-tokens";
+
+// Newest published tips considered for ranking
+const CANDIDATE_POOL_SIZE = 500;
+
+const FeedParamsSchema = z.object({
+  user_id: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  cursor: z.string().optional(),
+});
+
+/**
+ * Tips ranked for one user. Every item carries its score, the weighted
+ * components behind it and plain-language reasons, so a ranking can be
+ * explained or tuned through FEED_WEIGHTS. The user comes from the device
+ * token, as the signals reveal what they shared, liked and hid.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateDevice(request);
+  if (!auth.ok) {
+    return NextResponse.json(deviceAuthError(auth.reason), { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const locale = resolveRequestLocale(request);
+
+  const parsed = FeedParamsSchema.safeParse(
+    Object.fromEntries(searchParams.entries()),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid parameters", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+  const { user_id, limit, cursor } = parsed.data;
+
+  if (!tokenMatchesUserId(auth, user_id)) {
+    return NextResponse.json(
+      { error: "user_id does not match the device token" },
+      { status: 403 },
+    );
+  }
+
+  const position = cursor
+    ? decodeFeedCursor(cursor)
+    : { at: Date.now(), served: new Set<number>() };
+  if (!position) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  try {
+    const weights = loadFeedWeights();
+    const [candidates, signals] = await Promise.all([
+      prisma.tip.findMany({
+        where: { status: "published" },
+        orderBy: { createdAt: "desc" },
+        take: CANDIDATE_POOL_SIZE,
+        select: { ...PUBLIC_TIP_SELECT, sharesCount: true },
+      }),
+      loadUserSignals(auth.userId),
+    ]);
+
+    const ranked = rankTips(
+      candidates.filter(
+        (tip) =>
+          !signals.hiddenTipIds.has(tip.id) && !isServed(position, tip.id),
+      ),
+      signals,
+      weights,
+      new Date(position.at),
+    );
+    const page = ranked.slice(0, limit);
+
+    const translations = await loadTranslations(
+      page.map((entry) => entry.tip.id),
+      locale,
+    );
+
+    return NextResponse.json(
+      {
+        items: page.map(({ tip, rank, ranking }) => ({
+          ...formatTip(tip, translations.get(tip.id)),
+          ranking: {
+            // Counted across the whole session, not just this page
+            rank: position.served.size + rank,
+            score: ranking.score,
+            components: ranking.components,
+            reasons: ranking.reasons,
+          },
+        })),
+        nextCursor:
+          ranked.length > page.length
+            ? encodeFeedCursor(
+                withServed(
+                  position,
+                  page.map((entry) => entry.tip.id),
+                ),
+              )
+            : undefined,
+        weights: {
+          recency: weights.recency,
+          popularity: weights.popularity,
+          affinity: weights.affinity,
+          seen_penalty: weights.seenPenalty,
+          half_life_hours: weights.halfLifeHours,
+        },
+        locale,
+      },
+      { headers: { Vary: "Accept-Language" } },
+    );
+  } catch (error) {
+    console.error("[feed] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to build feed" },
+      { status: 500 },
+    );
+  }
+}
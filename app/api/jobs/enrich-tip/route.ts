@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getUnsplashImage } from "@/lib/unsplash";
+import { findCategory, getCategories } from "@/lib/categories";
+import { qualityThresholds } from "@/lib/tip-quality";
+import { embedPendingTips, embedTip } from "@/lib/embeddings";
+
+// Published tips embedded per batch run, including backfill of older tips
+const EMBED_BATCH_SIZE = 20;
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -48,21 +54,58 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    if (tip.status === "failed") {
+      return NextResponse.json(
+        { error: "Tip failed quality checks and cannot be published" },
+        { status: 409 },
+      );
+    }
+
+    const { publish: publishThreshold } = qualityThresholds();
+    if (tip.qualityScore !== null && tip.qualityScore < publishThreshold) {
+      console.log(
+        `[enrich-tip] Tip ${tipId} held in draft (quality ${tip.qualityScore} < ${publishThreshold})`,
+      );
+      return NextResponse.json({
+        success: true,
+        tipId,
+        held: true,
+        qualityScore: tip.qualityScore,
+        qualityViolations: tip.qualityViolations,
+        message: "Tip is below the quality threshold and stays in draft",
+        durationMs: Date.now() - startTime,
+      });
+    }
+
     console.log(`[enrich-tip] Fetching image for: ${tip.category}`);
 
-    const image = await getUnsplashImage(tip.category).catch((err) => {
-      console.error(`[enrich-tip] Unsplash error for ${tipId}:`, err);
-      return null;
-    });
+    const categories = await getCategories({ includeInactive: true });
+    const imageQuery = findCategory(categories, tip.category)?.imageQuery;
+
+    const image = await getUnsplashImage(tip.category, imageQuery).catch(
+      (err) => {
+        console.error(`[enrich-tip] Unsplash error for ${tipId}:`, err);
+        return null;
+      },
+    );
 
     const updatedTip = await prisma.tip.update({
       where: { id: tipId },
       data: {
         image: image ? (image as unknown as Prisma.InputJsonValue) : tip.image,
         status: "published", // Mark as published
+        contentUpdatedAt: new Date(),
       },
     });
 
+    // A missing vector only hides the tip from related lists until backfill
+    const embedded = await embedTip(tipId)
+      .then((vector) => !!vector)
+      .catch((err) => {
+        console.error(`[enrich-tip] Embedding error for ${tipId}:`, err);
+        return false;
+      });
+
     const durationMs = Date.now() - startTime;
     console.log(`[enrich-tip] Tip ${tipId} enriched in ${durationMs}ms`);
 
@@ -71,6 +114,7 @@ export async function POST(request: NextRequest) {
       tipId,
       status: updatedTip.status,
       hasImage: !!updatedTip.image,
+      embedded,
       durationMs,
     });
   } catch (error) {
@@ -86,8 +130,15 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function embedPending(): Promise<number> {
+  return embedPendingTips(EMBED_BATCH_SIZE).catch((err) => {
+    console.error("[enrich-tip] Embedding error:", err);
+    return 0;
+  });
+}
+
 /**
- * GET endpoint to enrich all draft tips
+ * GET endpoint to enrich all draft tips that meet the quality threshold
  */
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -105,8 +156,18 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    const { publish: publishThreshold } = qualityThresholds();
+
+    // Tips held for low quality stay in draft without blocking the queue
     const draftTips = await prisma.tip.findMany({
-      where: { status: "draft" },
+      where: {
+        status: "draft",
+        OR: [
+          { qualityScore: { isSet: false } },
+          { qualityScore: null },
+          { qualityScore: { gte: publishThreshold } },
+        ],
+      },
       select: { id: true, category: true, tipText: true },
       take: 10,
     });
@@ -116,12 +177,15 @@ export async function GET(request: NextRequest) {
         success: true,
         message: "No draft tips to enrich",
         enriched: 0,
+        embedded: await embedPending(),
         durationMs: Date.now() - startTime,
       });
     }
 
     console.log(`[enrich-tip] Found ${draftTips.length} draft tips to enrich`);
 
+    const categories = await getCategories({ includeInactive: true });
+
     const batchSize = 3;
     const results: PromiseSettledResult<any>[] = [];
 
@@ -129,13 +193,17 @@ export async function GET(request: NextRequest) {
       const batch = draftTips.slice(i, i + batchSize);
       const batchResults = await Promise.allSettled(
         batch.map(async (tip) => {
-          const image = await getUnsplashImage(tip.category).catch(() => null);
+          const image = await getUnsplashImage(
+            tip.category,
+            findCategory(categories, tip.category)?.imageQuery,
+          ).catch(() => null);
 
           return prisma.tip.update({
             where: { id: tip.id },
             data: {
               image: image ? (image as unknown as Prisma.InputJsonValue) : undefined,
               status: "published",
+              contentUpdatedAt: new Date(),
             },
           });
         }),
@@ -150,6 +218,8 @@ export async function GET(request: NextRequest) {
     const successCount = results.filter((r) => r.status === "fulfilled").length;
     const failCount = results.filter((r) => r.status === "rejected").length;
 
+    const embedded = await embedPending();
+
     const durationMs = Date.now() - startTime;
     console.log(
       `[enrich-tip] Batch complete: ${successCount} success, ${failCount} failed in ${durationMs}ms`,
@@ -159,6 +229,7 @@ export async function GET(request: NextRequest) {
       success: true,
       enriched: successCount,
       failed: failCount,
+      embedded,
       total: draftTips.length,
       durationMs,
     });
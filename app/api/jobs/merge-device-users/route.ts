@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { mergeLegacyDeviceUsers } from "@/lib/identity";
+import { isCronRequest } from "@/lib/auth";
+
+export const maxDuration = 300;
+
+/**
+ * Merges the duplicate users the fake-email identities created into one
+ * user per device, records each device id and claims the real emails users
+ * already had. `?dry_run=true` reports what would change without writing.
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const dryRun = searchParams.get("dry_run") === "true";
+
+  try {
+    const report = await mergeLegacyDeviceUsers({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[merge-device-users] ${dryRun ? "Would merge" : "Merged"} ${report.mergedUsers} users across ${report.groups} devices, ${report.claimedEmails} emails claimed (${report.emailConflicts} conflicts) in ${durationMs}ms`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      ...report,
+      durationMs,
+    });
+  } catch (error) {
+    console.error("[merge-device-users] Error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
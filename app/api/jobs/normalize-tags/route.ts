@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { normalizeTags } from "@/lib/tags";
+import { isCronRequest } from "@/lib/auth";
+
+export const maxDuration = 300;
+
+const PAGE_SIZE = 500;
+const SAMPLE_SIZE = 20;
+
+/**
+ * Rewrites the tags of every tip into their normalized form. Safe to run
+ * repeatedly: tips whose tags are already normalized are left alone. With
+ * `?dry_run=true` it only reports what would change.
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const dryRun = searchParams.get("dry_run") === "true";
+
+  try {
+    let scanned = 0;
+    let changedCount = 0;
+    const sample: { tipId: string; from: string[]; to: string[] }[] = [];
+    let cursor: string | undefined;
+
+    while (true) {
+      const tips = await prisma.tip.findMany({
+        select: { id: true, tags: true },
+        orderBy: { id: "asc" },
+        take: PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (tips.length === 0) break;
+      cursor = tips[tips.length - 1].id;
+      scanned += tips.length;
+
+      const changed = tips
+        .map((tip) => ({ ...tip, normalized: normalizeTags(tip.tags) }))
+        .filter(
+          (tip) =>
+            tip.normalized.length !== tip.tags.length ||
+            tip.normalized.some((tag, i) => tag !== tip.tags[i]),
+        );
+
+      for (const tip of changed) {
+        if (sample.length < SAMPLE_SIZE) {
+          sample.push({ tipId: tip.id, from: tip.tags, to: tip.normalized });
+        }
+        if (!dryRun) {
+          await prisma.tip.update({
+            where: { id: tip.id },
+            data: { tags: tip.normalized, contentUpdatedAt: new Date() },
+          });
+        }
+      }
+      changedCount += changed.length;
+    }
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[normalize-tags] ${dryRun ? "Would update" : "Updated"} ${changedCount}/${scanned} tips in ${durationMs}ms`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      scanned,
+      changed: changedCount,
+      sample,
+      durationMs,
+    });
+  } catch (error) {
+    console.error("[normalize-tags] Error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
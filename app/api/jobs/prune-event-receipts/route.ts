@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EVENT_MAX_AGE_DAYS, pruneEventReceipts } from "@/lib/events";
+import { isCronRequest } from "@/lib/auth";
+
+/**
+ * Deletes event receipts older than the event age limit; events that old
+ * are rejected anyway, so their receipts no longer guard anything.
+ * `?dry_run=true` only counts them.
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const dryRun = searchParams.get("dry_run") === "true";
+
+  try {
+    const pruned = await pruneEventReceipts({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[prune-event-receipts] ${dryRun ? "Would delete" : "Deleted"} ${pruned} receipts older than ${EVENT_MAX_AGE_DAYS} days in ${durationMs}ms`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      pruned,
+      durationMs,
+    });
+  } catch (error) {
+    console.error("[prune-event-receipts] Error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ACTION_REQUEST_TTL_DAYS,
+  pruneActionRequests,
+  reconcileActionCounters,
+} from "@/lib/actions";
+import { isCronRequest } from "@/lib/auth";
+
+export const maxDuration = 300;
+
+/**
+ * Recomputes `sharesCount` and the other action counters from `Action`
+ * rows and fixes any drift, skipping tips that keep conflicting with live
+ * actions. It also drops action request ids past their retry window.
+ * `?dry_run=true` reports drift without writing.
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const dryRun = searchParams.get("dry_run") === "true";
+
+  try {
+    const { scanned, fixes, conflicts } = await reconcileActionCounters({
+      dryRun,
+    });
+    const prunedRequests = await pruneActionRequests({ dryRun });
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[reconcile-counters] ${dryRun ? "Found" : "Fixed"} ${fixes.length} drifted counters across ${scanned} tips (${conflicts.length} skipped on conflicts), ${prunedRequests} request ids older than ${ACTION_REQUEST_TTL_DAYS} days in ${durationMs}ms`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      scanned,
+      drifted: fixes.length + conflicts.length,
+      fixes,
+      conflicts,
+      prunedRequests,
+      durationMs,
+    });
+  } catch (error) {
+    console.error("[reconcile-counters] Error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
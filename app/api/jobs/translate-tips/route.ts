@@ -0,0 +1,314 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { translateTip } from "@/lib/translate";
+import {
+  DEFAULT_LOCALE,
+  normalizeLocale,
+  translationLocales,
+} from "@/lib/locales";
+import { totalUsage, type TokenUsage } from "@/lib/ai-usage";
+import { isCronRequest } from "@/lib/auth";
+
+// Each translation is one model call; keep a batch inside one invocation
+export const maxDuration = 300;
+
+const TIPS_PER_LOCALE = 5;
+// A failing tip waits 1h, 2h, 4h... before its next try, and is given up on
+// after the last attempt
+const MAX_TRANSLATION_ATTEMPTS = 5;
+const TRANSLATION_RETRY_BASE_MS = 60 * 60 * 1000;
+
+const TRANSLATABLE_SELECT = {
+  id: true,
+  tipText: true,
+  tipSummary: true,
+  tipDetail: true,
+  contentUpdatedAt: true,
+} as const;
+
+type TranslationOutcome = {
+  tipId: string;
+  locale: string;
+  ok: boolean;
+  error?: string;
+};
+
+async function translateAndStore(
+  tip: {
+    id: string;
+    tipText: string;
+    tipSummary: string | null;
+    tipDetail: string | null;
+    contentUpdatedAt: Date | null;
+  },
+  locale: string,
+  usage: TokenUsage[],
+): Promise<TranslationOutcome> {
+  const result = await translateTip(tip, locale);
+  usage.push(...result.usage);
+  const where = { tipId_locale: { tipId: tip.id, locale } };
+
+  if (!result.translation) {
+    const failure = { lastError: result.error, lastErrorAt: new Date() };
+    await prisma.translationFailure.upsert({
+      where,
+      create: { tipId: tip.id, locale, attempts: 1, ...failure },
+      update: { attempts: { increment: 1 }, ...failure },
+    });
+    return { tipId: tip.id, locale, ok: false, error: result.error };
+  }
+
+  const translation = {
+    ...result.translation,
+    sourceUpdatedAt: tip.contentUpdatedAt,
+  };
+  await prisma.tipTranslation.upsert({
+    where,
+    create: { tipId: tip.id, locale, ...translation },
+    update: translation,
+  });
+  await prisma.translationFailure.deleteMany({
+    where: { tipId: tip.id, locale },
+  });
+  return { tipId: tip.id, locale, ok: true };
+}
+
+// Tips still waiting out their backoff, or out of attempts, for a locale
+async function backedOffTipIds(locale: string, now: Date): Promise<string[]> {
+  const failures = await prisma.translationFailure.findMany({
+    where: { locale },
+    select: { tipId: true, attempts: true, lastErrorAt: true },
+  });
+  return failures
+    .filter(
+      (failure) =>
+        failure.attempts >= MAX_TRANSLATION_ATTEMPTS ||
+        now.getTime() - failure.lastErrorAt.getTime() <
+          TRANSLATION_RETRY_BASE_MS * 2 ** (failure.attempts - 1),
+    )
+    .map((failure) => failure.tipId);
+}
+
+/**
+ * Up to TIPS_PER_LOCALE tips to translate into a locale: untranslated ones
+ * first, newest first, then those whose text changed after they were
+ * translated. Tips backing off after a failure are left out.
+ */
+async function pendingTips(locale: string, now: Date) {
+  const backedOff = await backedOffTipIds(locale, now);
+
+  const missing = await prisma.tip.findMany({
+    where: {
+      status: "published",
+      id: { notIn: backedOff },
+      translations: { none: { locale } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: TIPS_PER_LOCALE,
+    select: TRANSLATABLE_SELECT,
+  });
+  if (missing.length >= TIPS_PER_LOCALE) return missing;
+
+  const translated = await prisma.tip.findMany({
+    where: {
+      status: "published",
+      id: { notIn: backedOff },
+      contentUpdatedAt: { not: null },
+      translations: { some: { locale } },
+    },
+    orderBy: { contentUpdatedAt: "desc" },
+    select: {
+      ...TRANSLATABLE_SELECT,
+      translations: {
+        where: { locale },
+        select: { sourceUpdatedAt: true, updatedAt: true },
+      },
+    },
+  });
+  // Translations from before sourceUpdatedAt was stored fall back to their
+  // own write time
+  const stale = translated
+    .filter(({ contentUpdatedAt, translations: [translation] }) => {
+      const source = translation.sourceUpdatedAt ?? translation.updatedAt;
+      return contentUpdatedAt!.getTime() > source.getTime();
+    })
+    .slice(0, TIPS_PER_LOCALE - missing.length);
+
+  return [...missing, ...stale];
+}
+
+/**
+ * Translates one tip into the given locales (default: TRANSLATION_LOCALES),
+ * replacing existing variants.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { tipId, locales: requestedLocales } = body;
+
+    if (!tipId) {
+      return NextResponse.json({ error: "tipId is required" }, { status: 400 });
+    }
+
+    const normalized = Array.isArray(requestedLocales)
+      ? requestedLocales.map((l: unknown) => normalizeLocale(String(l)))
+      : translationLocales();
+    if (normalized.some((locale) => !locale || locale === DEFAULT_LOCALE)) {
+      return NextResponse.json(
+        { error: "locales must be supported, non-English locales" },
+        { status: 400 },
+      );
+    }
+    const locales = normalized as string[];
+
+    const tip = await prisma.tip.findUnique({
+      where: { id: tipId },
+      select: TRANSLATABLE_SELECT,
+    });
+    if (!tip) {
+      return NextResponse.json({ error: "Tip not found" }, { status: 404 });
+    }
+
+    console.log(
+      `[translate-tips] Translating tip ${tipId} into ${locales.join(", ")}`,
+    );
+
+    const usage: TokenUsage[] = [];
+    const results: TranslationOutcome[] = [];
+    for (const locale of locales) {
+      results.push(await translateAndStore(tip, locale, usage));
+    }
+
+    return NextResponse.json({
+      success: results.every((r) => r.ok),
+      tipId,
+      results,
+      usage: totalUsage(usage),
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error("[translate-tips] Error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * GET endpoint to translate published tips that are missing a variant for
+ * any configured locale, or whose variant predates their latest text. Tips
+ * that failed back off, so they cannot hold up the rest of the queue.
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const locales = translationLocales();
+  const job = await prisma.job.create({
+    data: {
+      status: "running",
+      kind: "translation",
+      params: { locales },
+      summary: { started: new Date().toISOString(), phase: "translation" },
+    },
+  });
+
+  const usage: TokenUsage[] = [];
+  const results: TranslationOutcome[] = [];
+
+  try {
+    for (const locale of locales) {
+      const pending = await pendingTips(locale, new Date());
+
+      console.log(
+        `[translate-tips] ${pending.length} tips to translate into ${locale}`,
+      );
+
+      for (const tip of pending) {
+        results.push(await translateAndStore(tip, locale, usage));
+      }
+    }
+
+    const translated = results.filter((r) => r.ok).length;
+    const durationMs = Date.now() - startTime;
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "completed",
+        finishedAt: new Date(),
+        usage,
+        costUsd: totalUsage(usage).costUsd,
+        errors: results.some((r) => !r.ok)
+          ? results.filter((r) => !r.ok)
+          : undefined,
+        summary: {
+          started: job.startedAt,
+          finished: new Date().toISOString(),
+          locales,
+          translated,
+          failed: results.length - translated,
+          usage: totalUsage(usage),
+          durationMs,
+          phase: "translation_complete",
+        },
+      },
+    });
+
+    console.log(
+      `[translate-tips] Batch complete: ${translated}/${results.length} translated in ${durationMs}ms`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      locales,
+      translated,
+      failed: results.length - translated,
+      results,
+      durationMs,
+    });
+  } catch (error) {
+    console.error("[translate-tips] Batch error:", error);
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "failed",
+        finishedAt: new Date(),
+        usage,
+        costUsd: totalUsage(usage).costUsd,
+        errors: [
+          {
+            step: "translation",
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        ],
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        jobId: job.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { resolveCategoryNames } from "@/lib/categories";
+import { loadTagCounts } from "@/lib/tags";
+
+const TagParamsSchema = z.object({
+  category: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const parsed = TagParamsSchema.safeParse(
+    Object.fromEntries(searchParams.entries()),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid parameters", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+  const { category, limit } = parsed.data;
+
+  try {
+    const [categoryName] = category
+      ? await resolveCategoryNames([category])
+      : [];
+    const counts = await loadTagCounts({ category: categoryName });
+
+    return NextResponse.json({
+      items: counts.slice(0, limit),
+      total: counts.length,
+    });
+  } catch (error) {
+    console.error("Error fetching tags:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tags" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { ACTION_TYPES, applyAction } from "@/lib/actions";
+import {
+  authenticateDevice,
+  deviceAuthError,
+  tokenMatchesUserId,
+} from "@/lib/device-tokens";
 
+/**
+ * Records a share, or toggles a bookmark, like or hide: a second call
+ * removes it. Send a `request_id` unique to each tap so a retried request
+ * replays its first result instead of toggling back.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
@@ -8,11 +19,39 @@ export async function POST(
   const { id } = await params;
 
   try {
+    // The user comes from the device token, never from the body alone
+    const auth = await authenticateDevice(request);
+    if (!auth.ok) {
+      return NextResponse.json(deviceAuthError(auth.reason), { status: 401 });
+    }
+
     const body = await request.json();
-    const { user_id } = body;
+    const { user_id, action_type = "share", request_id } = body;
 
-    if (!user_id) {
-      return NextResponse.json({ error: "user_id required" }, { status: 400 });
+    if (!tokenMatchesUserId(auth, user_id)) {
+      return NextResponse.json(
+        { error: "user_id does not match the device token" },
+        { status: 403 },
+      );
+    }
+    if (!ACTION_TYPES.includes(action_type)) {
+      return NextResponse.json(
+        {
+          error: `Invalid action_type. Expected one of: ${ACTION_TYPES.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+    if (
+      request_id !== undefined &&
+      (typeof request_id !== "string" ||
+        request_id.length === 0 ||
+        request_id.length > 100)
+    ) {
+      return NextResponse.json(
+        { error: "request_id must be a string of 1 to 100 characters" },
+        { status: 400 },
+      );
     }
 
     const tip = await prisma.tip.findUnique({ where: { id } });
@@ -20,49 +59,16 @@ export async function POST(
       return NextResponse.json({ error: "Tip not found" }, { status: 404 });
     }
 
-    let user = await prisma.user.findUnique({ where: { id: user_id } });
-    if (!user) {
-      user = await prisma.user.create({
-        data: {
-          id: user_id,
-          email: `${user_id}@anonymous.local`,
-        },
-      });
-    }
-
-    const existingAction = await prisma.action.findUnique({
-      where: {
-        userId_tipId_actionType: {
-          userId: user_id,
-          tipId: id,
-          actionType: "share",
-        },
-      },
-    });
-
-    if (existingAction) {
-      return NextResponse.json({
-        success: true,
-        action: "already_shared",
-      });
-    }
-
-    await prisma.action.create({
-      data: {
-        userId: user_id,
-        tipId: id,
-        actionType: "share",
-      },
-    });
-
-    await prisma.tip.update({
-      where: { id },
-      data: { sharesCount: { increment: 1 } },
-    });
+    const result = await applyAction(auth.userId, id, action_type, request_id);
 
     return NextResponse.json({
       success: true,
-      action: "added",
+      user_id: auth.userId,
+      action_type,
+      action: result.outcome,
+      active: result.active,
+      count: result.count,
+      replayed: result.replayed,
     });
   } catch (error) {
     console.error("Error handling action:", error);
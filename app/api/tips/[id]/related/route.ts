@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { formatTip } from "@/lib/tip-format";
+import { resolveRequestLocale } from "@/lib/locales";
+import { loadTranslations } from "@/lib/translate";
+import {
+  findRelatedTips,
+  RELATED_TIPS_DEFAULT_LIMIT,
+  RELATED_TIPS_MAX_LIMIT,
+} from "@/lib/related-tips";
+
+const RelatedParamsSchema = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(RELATED_TIPS_MAX_LIMIT)
+    .default(RELATED_TIPS_DEFAULT_LIMIT),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const locale = resolveRequestLocale(request);
+
+  const parsed = RelatedParamsSchema.safeParse(
+    Object.fromEntries(searchParams.entries()),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid parameters", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const source = await prisma.tip.findUnique({
+      where: { id, status: "published" },
+      select: { id: true },
+    });
+    if (!source) {
+      return NextResponse.json({ error: "Tip not found" }, { status: 404 });
+    }
+
+    const related = (await findRelatedTips(id, parsed.data.limit)) ?? [];
+    const translations = await loadTranslations(
+      related.map((r) => r.tip.id),
+      locale,
+    );
+
+    return NextResponse.json(
+      {
+        items: related.map(({ tip, similarity }) => ({
+          ...formatTip(tip, translations.get(tip.id)),
+          similarity,
+        })),
+        locale,
+      },
+      { headers: { Vary: "Accept-Language" } },
+    );
+  } catch (error) {
+    console.error("[related-tips] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch related tips" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,42 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { formatTip, PUBLIC_TIP_SELECT } from "@/lib/tip-format";
+import { resolveRequestLocale } from "@/lib/locales";
+import { loadTranslations } from "@/lib/translate";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   const { id } = await params;
+  const locale = resolveRequestLocale(request);
 
   try {
     const tip = await prisma.tip.findUnique({
       where: { id, status: "published" },
-      select: {
-        id: true,
-        tipText: true,
-        tipSummary: true,
-        tipDetail: true,
-        codeSnippet: true,
-        category: true,
-        tags: true,
-        image: true,
-        createdAt: true,
-      },
+      select: PUBLIC_TIP_SELECT,
     });
 
     if (!tip) {
       return NextResponse.json({ error: "Tip not found" }, { status: 404 });
     }
 
-    return NextResponse.json({
-      id: tip.id,
-      tip_text: tip.tipText,
-      tip_summary: tip.tipSummary,
-      tip_detail: tip.tipDetail,
-      code_snippet: tip.codeSnippet,
-      category: tip.category,
-      tags: tip.tags,
-      image: tip.image,
-      created_at: tip.createdAt,
+    const translations = await loadTranslations([tip.id], locale);
+    const formatted = formatTip(tip, translations.get(tip.id));
+
+    return NextResponse.json(formatted, {
+      headers: {
+        "Content-Language": formatted.locale,
+        Vary: "Accept-Language",
+      },
     });
   } catch (error) {
     console.error("Error fetching tip:", error);
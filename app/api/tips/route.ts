@@ -1,14 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
 import { prisma } from "@/lib/prisma";
+import { resolveCategoryNames } from "@/lib/categories";
+import { CLAIM_PROVENANCES } from "@/lib/claim-provenance";
+import { formatTip, PUBLIC_TIP_SELECT, type PublicTip } from "@/lib/tip-format";
+import { resolveRequestLocale } from "@/lib/locales";
+import { loadTranslations } from "@/lib/translate";
+import { TAG_MATCH_MODES, tagsFilter, type TagMatchMode } from "@/lib/tags";
+import { seededPage } from "@/lib/shuffle";
 
-// Fisher-Yates shuffle algorithm
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+const MAX_SEED_LENGTH = 64;
+
+async function findShuffledTips(
+  where: Record<string, unknown>,
+  seed: string,
+  limit: number,
+  cursor: string | null,
+) {
+  const candidates = await prisma.tip.findMany({ where, select: { id: true } });
+  const page = seededPage(
+    candidates.map((tip) => tip.id),
+    seed,
+    limit,
+    cursor,
+  );
+
+  const tips = await prisma.tip.findMany({
+    where: { id: { in: page.ids } },
+    select: PUBLIC_TIP_SELECT,
+  });
+  const byId = new Map(tips.map((tip) => [tip.id, tip]));
+  return {
+    tips: page.ids.flatMap((id) => byId.get(id) ?? []),
+    nextCursor: page.nextCursor,
+  };
 }
 
 export async function GET(request: NextRequest) {
@@ -18,6 +43,42 @@ export async function GET(request: NextRequest) {
   const category = searchParams.get("category");
   const categories = searchParams.get("categories")?.split(",").filter(Boolean);
   const shuffle = searchParams.get("shuffle") === "true";
+  // Without a seed each request gets a fresh one, echoed back for paging
+  const seed = shuffle ? searchParams.get("seed") || uuidv4() : null;
+  const company = searchParams.get("company");
+  const tech = searchParams.get("tech");
+  const provenance = searchParams.get("provenance");
+  const tags = searchParams.get("tags")?.split(",").filter(Boolean);
+  const tagMatch = searchParams.get("tag_match") || "any";
+  const locale = resolveRequestLocale(request);
+
+  if (
+    provenance &&
+    !(CLAIM_PROVENANCES as readonly string[]).includes(provenance)
+  ) {
+    return NextResponse.json(
+      {
+        error: `Invalid provenance. Expected one of: ${CLAIM_PROVENANCES.join(", ")}`,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (!(TAG_MATCH_MODES as readonly string[]).includes(tagMatch)) {
+    return NextResponse.json(
+      {
+        error: `Invalid tag_match. Expected one of: ${TAG_MATCH_MODES.join(", ")}`,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (seed && seed.length > MAX_SEED_LENGTH) {
+    return NextResponse.json(
+      { error: `Invalid seed. Expected at most ${MAX_SEED_LENGTH} characters` },
+      { status: 400 },
+    );
+  }
 
   try {
     const where: Record<string, unknown> = {
@@ -25,53 +86,67 @@ export async function GET(request: NextRequest) {
     };
 
     if (category) {
-      where.category = category;
+      const [name] = await resolveCategoryNames([category]);
+      where.category = name;
     } else if (categories?.length) {
-      where.category = { in: categories };
+      where.category = { in: await resolveCategoryNames(categories) };
     }
 
-    const tips = await prisma.tip.findMany({
-      where,
-      take: limit + 1,
-      cursor: cursor ? { id: cursor } : undefined,
-      orderBy: { createdAt: "desc" },
-      select: {
-        id: true,
-        tipText: true,
-        tipSummary: true,
-        tipDetail: true,
-        codeSnippet: true,
-        category: true,
-        tags: true,
-        image: true,
-        createdAt: true,
-      },
-    });
+    if (company) {
+      where.company = { equals: company, mode: "insensitive" };
+    }
+    if (tech) {
+      where.primaryTech = { equals: tech, mode: "insensitive" };
+    }
+    if (provenance) {
+      where.claimProvenance = provenance;
+    }
+    if (tags?.length) {
+      where.tags = tagsFilter(tags, tagMatch as TagMatchMode);
+    }
 
+    let tips: PublicTip[];
     let nextCursor: string | undefined;
-    if (tips.length > limit) {
-      const nextItem = tips.pop();
-      nextCursor = nextItem?.id;
-    }
 
-    const formattedTips = tips.map((tip) => ({
-      id: tip.id,
-      tip_text: tip.tipText,
-      tip_summary: tip.tipSummary,
-      tip_detail: tip.tipDetail,
-      code_snippet: tip.codeSnippet,
-      category: tip.category,
-      tags: tip.tags,
-      image: tip.image,
-      created_at: tip.createdAt,
-    }));
+    if (seed) {
+      ({ tips, nextCursor } = await findShuffledTips(
+        where,
+        seed,
+        limit,
+        cursor,
+      ));
+    } else {
+      tips = await prisma.tip.findMany({
+        where,
+        take: limit + 1,
+        cursor: cursor ? { id: cursor } : undefined,
+        orderBy: { createdAt: "desc" },
+        select: PUBLIC_TIP_SELECT,
+      });
 
-    const finalTips = shuffle ? shuffleArray(formattedTips) : formattedTips;
+      if (tips.length > limit) {
+        const nextItem = tips.pop();
+        nextCursor = nextItem?.id;
+      }
+    }
+
+    const translations = await loadTranslations(
+      tips.map((tip) => tip.id),
+      locale,
+    );
+    const formattedTips = tips.map((tip) =>
+      formatTip(tip, translations.get(tip.id)),
+    );
 
-    return NextResponse.json({
-      items: finalTips,
-      nextCursor,
-    });
+    return NextResponse.json(
+      {
+        items: formattedTips,
+        nextCursor,
+        ...(seed && { seed }),
+        locale,
+      },
+      { headers: { Vary: "Accept-Language" } },
+    );
   } catch (error) {
     console.error("Error fetching tips:", error);
     return NextResponse.json(
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { resolveCategoryNames } from "@/lib/categories";
+import { formatTip, PUBLIC_TIP_SELECT } from "@/lib/tip-format";
+import { resolveRequestLocale } from "@/lib/locales";
+import { loadTranslations } from "@/lib/translate";
+import {
+  decodeSearchCursor,
+  highlightDocument,
+  loadSearchIndex,
+  pageHits,
+  searchIndex,
+} from "@/lib/search";
+
+const SearchParamsSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  cursor: z.string().optional(),
+  category: z.string().optional(),
+  tag: z.string().optional(),
+});
+
+/**
+ * Ranked search over published tips. Highlights mark matches in the English
+ * text the index was built from, even when the tip is returned translated.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const locale = resolveRequestLocale(request);
+
+  const parsed = SearchParamsSchema.safeParse(
+    Object.fromEntries(searchParams.entries()),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid parameters", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+  const { q, limit, cursor, category, tag } = parsed.data;
+
+  const after = cursor ? decodeSearchCursor(cursor) : null;
+  if (cursor && !after) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  try {
+    const [categoryName] = category
+      ? await resolveCategoryNames([category])
+      : [];
+
+    const index = await loadSearchIndex();
+    const result = searchIndex(index, q, { category: categoryName, tag });
+    const { page, nextCursor } = pageHits(result.hits, limit, after);
+
+    const ids = page.map((hit) => hit.document.id);
+    const [tips, translations] = await Promise.all([
+      prisma.tip.findMany({
+        where: { id: { in: ids }, status: "published" },
+        select: PUBLIC_TIP_SELECT,
+      }),
+      loadTranslations(ids, locale),
+    ]);
+    const byId = new Map(tips.map((tip) => [tip.id, tip]));
+
+    const items = page
+      .filter((hit) => byId.has(hit.document.id))
+      .map((hit) => ({
+        ...formatTip(
+          byId.get(hit.document.id)!,
+          translations.get(hit.document.id),
+        ),
+        score: hit.score,
+        highlights: highlightDocument(hit.document, q),
+      }));
+
+    return NextResponse.json(
+      {
+        items,
+        nextCursor,
+        total: result.total,
+        facets: result.facets,
+        locale,
+      },
+      { headers: { Vary: "Accept-Language" } },
+    );
+  } catch (error) {
+    console.error("[search] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to search tips" },
+      { status: 500 },
+    );
+  }
+}
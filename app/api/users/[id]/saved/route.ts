@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { formatTip, PUBLIC_TIP_SELECT } from "@/lib/tip-format";
+import { resolveRequestLocale } from "@/lib/locales";
+import { loadTranslations } from "@/lib/translate";
+import {
+  authenticateDevice,
+  deviceAuthError,
+  tokenMatchesUserId,
+} from "@/lib/device-tokens";
+
+const SavedParamsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  cursor: z.string().optional(),
+});
+
+type SavedCursor = { at: Date; id: string };
+
+// Position of the last bookmark served, as (saved at, bookmark id)
+function encodeSavedCursor(cursor: SavedCursor): string {
+  return Buffer.from(
+    JSON.stringify({ at: cursor.at.getTime(), id: cursor.id }),
+  ).toString("base64url");
+}
+
+function decodeSavedCursor(cursor: string): SavedCursor | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      !Number.isInteger(value?.at) ||
+      typeof value.id !== "string" ||
+      !/^[a-f0-9]{24}$/i.test(value.id)
+    ) {
+      return null;
+    }
+    return { at: new Date(value.at), id: value.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A user's bookmarked tips, most recently saved first. Bookmarks of tips
+ * that are no longer published are skipped. Only the user's own devices may
+ * list them. Pages continue after the last bookmark served, so bookmarks
+ * added or removed meanwhile do not shift or break the next page.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const auth = await authenticateDevice(request);
+  if (!auth.ok) {
+    return NextResponse.json(deviceAuthError(auth.reason), { status: 401 });
+  }
+
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const locale = resolveRequestLocale(request);
+
+  const parsed = SavedParamsSchema.safeParse(
+    Object.fromEntries(searchParams.entries()),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid parameters", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+  if (!tokenMatchesUserId(auth, id)) {
+    return NextResponse.json(
+      { error: "User id does not match the device token" },
+      { status: 403 },
+    );
+  }
+  const { limit, cursor } = parsed.data;
+
+  const after = cursor ? decodeSavedCursor(cursor) : null;
+  if (cursor && !after) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  try {
+    const bookmarks = await prisma.action.findMany({
+      where: {
+        userId: auth.userId,
+        actionType: "bookmark",
+        tip: { status: "published" },
+        ...(after && {
+          OR: [
+            { createdAt: { lt: after.at } },
+            { createdAt: after.at, id: { lt: after.id } },
+          ],
+        }),
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      select: { id: true, createdAt: true, tip: { select: PUBLIC_TIP_SELECT } },
+    });
+
+    let nextCursor: string | undefined;
+    if (bookmarks.length > limit) {
+      bookmarks.pop();
+      const last = bookmarks[bookmarks.length - 1];
+      nextCursor = encodeSavedCursor({ at: last.createdAt, id: last.id });
+    }
+
+    const translations = await loadTranslations(
+      bookmarks.map((bookmark) => bookmark.tip.id),
+      locale,
+    );
+
+    return NextResponse.json(
+      {
+        items: bookmarks.map((bookmark) => ({
+          ...formatTip(bookmark.tip, translations.get(bookmark.tip.id)),
+          saved_at: bookmark.createdAt,
+        })),
+        nextCursor,
+        locale,
+      },
+      { headers: { Vary: "Accept-Language" } },
+    );
+  } catch (error) {
+    console.error("Error fetching saved tips:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved tips" },
+      { status: 500 },
+    );
+  }
+}
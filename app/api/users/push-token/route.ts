@@ -1,40 +1,42 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import {
+  authenticateDevice,
+  deviceAuthError,
+  tokenMatchesUserId,
+} from "@/lib/device-tokens";
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authenticateDevice(request);
+    if (!auth.ok) {
+      return NextResponse.json(deviceAuthError(auth.reason), { status: 401 });
+    }
+
     const body = await request.json();
     const { user_id, push_token, device_type } = body;
 
-    if (!user_id || !push_token) {
+    if (!push_token) {
       return NextResponse.json(
-        { error: "user_id and push_token required" },
+        { error: "push_token required" },
         { status: 400 }
       );
     }
-
-    const email = `${user_id}@device.tldev`;
-
-    let user = await prisma.user.findUnique({ where: { email } });
-
-    if (!user) {
-      user = await prisma.user.create({
-        data: {
-          email,
-          pushToken: push_token,
-          deviceType: device_type || "unknown",
-        },
-      });
-    } else {
-      user = await prisma.user.update({
-        where: { email },
-        data: {
-          pushToken: push_token,
-          deviceType: device_type || user.deviceType,
-        },
-      });
+    if (!tokenMatchesUserId(auth, user_id)) {
+      return NextResponse.json(
+        { error: "user_id does not match the device token" },
+        { status: 403 }
+      );
     }
 
+    const user = await prisma.user.update({
+      where: { id: auth.userId },
+      data: {
+        pushToken: push_token,
+        ...(device_type && { deviceType: device_type }),
+      },
+    });
+
     return NextResponse.json({
       success: true,
       user_id: user.id,
@@ -1,4 +1,6 @@
 import { prisma } from "@/lib/prisma";
+import { findCategory, getCategories } from "@/lib/categories";
+import { findRelatedTips } from "@/lib/related-tips";
 import { Metadata } from "next";
 import { notFound } from "next/navigation";
 
@@ -17,6 +19,7 @@ async function getTip(id: string) {
             tipSummary: true,
             tipDetail: true,
             codeSnippet: true,
+            codeLanguage: true,
             category: true,
             tags: true,
             image: true,
@@ -89,6 +92,14 @@ export default async function TipSharePage({ params }: PageProps) {
 
     const image = tip.image as { url: string } | null;
     const deepLink = `tldev://tip/${tip.id}`;
+    const category = findCategory(
+        await getCategories({ includeInactive: true }),
+        tip.category,
+    );
+    const related = await findRelatedTips(tip.id, 4).catch((error) => {
+        console.error("[tip-page] Related tips failed:", error);
+        return null;
+    });
 
     const CYAN = "#7FEFEF";
     const PINK = "#E8A5D8";
@@ -212,8 +223,10 @@ export default async function TipSharePage({ params }: PageProps) {
                         style={{
                             display: "inline-block",
                             padding: "4px 12px",
-                            background: "rgba(127,239,239,0.1)",
-                            color: CYAN,
+                            background: category?.color
+                                ? `${category.color}1A`
+                                : "rgba(127,239,239,0.1)",
+                            color: category?.color || CYAN,
                             borderRadius: "999px",
                             fontSize: "12px",
                             fontWeight: 600,
@@ -221,7 +234,8 @@ export default async function TipSharePage({ params }: PageProps) {
                             letterSpacing: "0.5px",
                         }}
                     >
-                        {tip.category}
+                        {category?.icon ? `${category.icon} ` : ""}
+                        {category?.name || tip.category}
                     </span>
 
                     {/* Title */}
@@ -263,6 +277,20 @@ export default async function TipSharePage({ params }: PageProps) {
                                 border: "1px solid rgba(255,255,255,0.05)",
                             }}
                         >
+                            {tip.codeLanguage && (
+                                <div
+                                    style={{
+                                        fontSize: "11px",
+                                        fontWeight: 600,
+                                        color: "rgba(255,255,255,0.35)",
+                                        marginBottom: "8px",
+                                        letterSpacing: "0.5px",
+                                        textTransform: "uppercase",
+                                    }}
+                                >
+                                    {tip.codeLanguage}
+                                </div>
+                            )}
                             <pre
                                 style={{
                                     fontFamily: "'Menlo', 'Monaco', monospace",
@@ -331,6 +359,52 @@ export default async function TipSharePage({ params }: PageProps) {
                 </div>
             </div>
 
+            {/* Related tips */}
+            {related && related.length > 0 && (
+                <div
+                    style={{
+                        maxWidth: "520px",
+                        width: "100%",
+                        marginTop: "24px",
+                        zIndex: 1,
+                    }}
+                >
+                    <h2
+                        style={{
+                            fontSize: "13px",
+                            fontWeight: 600,
+                            color: "rgba(255,255,255,0.35)",
+                            letterSpacing: "0.5px",
+                            textTransform: "uppercase",
+                            marginBottom: "12px",
+                        }}
+                    >
+                        Related tips
+                    </h2>
+                    {related.map(({ tip: relatedTip }) => (
+                        <a
+                            key={relatedTip.id}
+                            href={`/tip/${relatedTip.id}`}
+                            style={{
+                                display: "block",
+                                padding: "14px 18px",
+                                marginBottom: "8px",
+                                background: "rgba(255,255,255,0.03)",
+                                border: "1px solid rgba(255,255,255,0.06)",
+                                borderRadius: "16px",
+                                color: "#fff",
+                                fontSize: "14px",
+                                fontWeight: 600,
+                                lineHeight: 1.4,
+                                textDecoration: "none",
+                            }}
+                        >
+                            {relatedTip.tipText}
+                        </a>
+                    ))}
+                </div>
+            )}
+
             {/* Footer */}
             <p
                 style={{
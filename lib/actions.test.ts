@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+
+// One user's actions on one tip, plus the tip's counters
+const state = {
+  actions: new Set<string>(),
+  requests: new Map<string, { outcome: string; active: boolean }>(),
+  counts: { sharesCount: 0, bookmarksCount: 0, likesCount: 0, hidesCount: 0 },
+  conflicts: 0,
+};
+
+type ActionWhere = {
+  where: { userId_tipId_actionType: { actionType: string } };
+};
+
+type RequestKey = {
+  actionType: string;
+  requestId: string;
+};
+
+const tx = {
+  action: {
+    findUnique: async ({ where }: ActionWhere) =>
+      state.actions.has(where.userId_tipId_actionType.actionType)
+        ? { id: "a1" }
+        : null,
+    create: async ({ data }: { data: { actionType: string } }) =>
+      state.actions.add(data.actionType),
+    delete: async ({ where }: ActionWhere) =>
+      state.actions.delete(where.userId_tipId_actionType.actionType),
+    count: async ({ where }: { where: { actionType: string } }) =>
+      state.actions.has(where.actionType) ? 1 : 0,
+  },
+  actionRequest: {
+    findUnique: async ({
+      where,
+    }: {
+      where: { userId_tipId_actionType_requestId: RequestKey };
+    }) => {
+      const key = where.userId_tipId_actionType_requestId;
+      return state.requests.get(`${key.actionType}:${key.requestId}`) ?? null;
+    },
+    create: async ({
+      data,
+    }: {
+      data: RequestKey & { outcome: string; active: boolean };
+    }) =>
+      state.requests.set(`${data.actionType}:${data.requestId}`, {
+        outcome: data.outcome,
+        active: data.active,
+      }),
+  },
+  tip: {
+    findUniqueOrThrow: async () => ({ ...state.counts }),
+    update: async ({
+      data,
+    }: {
+      data: Record<string, { increment: number } | number>;
+    }) => {
+      for (const [counter, change] of Object.entries(data)) {
+        const key = counter as keyof typeof state.counts;
+        state.counts[key] =
+          typeof change === "number"
+            ? change
+            : state.counts[key] + change.increment;
+      }
+      return { ...state.counts };
+    },
+  },
+};
+
+vi.mock("@/lib/prisma", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/prisma")>()),
+  prisma: {
+    $transaction: async (run: (client: typeof tx) => Promise<unknown>) => {
+      if (state.conflicts > 0) {
+        state.conflicts--;
+        throw new Prisma.PrismaClientKnownRequestError("Write conflict", {
+          code: "P2034",
+          clientVersion: "test",
+        });
+      }
+      return run(tx);
+    },
+    action: {
+      groupBy: async () =>
+        [...state.actions].map((actionType) => ({
+          tipId: TIP,
+          actionType,
+          _count: { _all: 1 },
+        })),
+    },
+    tip: {
+      findMany: async () => [{ id: TIP, ...state.counts }],
+    },
+  },
+}));
+
+import { applyAction, reconcileActionCounters } from "@/lib/actions";
+
+const USER = "66f000000000000000000001";
+const TIP = "66f0000000000000000000aa";
+
+beforeEach(() => {
+  state.actions.clear();
+  state.requests.clear();
+  for (const counter of Object.keys(state.counts)) {
+    state.counts[counter as keyof typeof state.counts] = 0;
+  }
+  state.conflicts = 0;
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("applyAction", () => {
+  it("removes a toggle action on the second call", async () => {
+    expect(await applyAction(USER, TIP, "like")).toEqual({
+      outcome: "added",
+      active: true,
+      count: 1,
+      replayed: false,
+    });
+    expect(await applyAction(USER, TIP, "like")).toEqual({
+      outcome: "removed",
+      active: false,
+      count: 0,
+      replayed: false,
+    });
+  });
+
+  it("counts a share once", async () => {
+    await applyAction(USER, TIP, "share");
+    expect(await applyAction(USER, TIP, "share")).toMatchObject({
+      outcome: "already_shared",
+      count: 1,
+    });
+  });
+
+  it("replays a resent request instead of toggling back", async () => {
+    await applyAction(USER, TIP, "bookmark", "tap-1");
+
+    expect(await applyAction(USER, TIP, "bookmark", "tap-1")).toEqual({
+      outcome: "added",
+      active: true,
+      count: 1,
+      replayed: true,
+    });
+    expect(await applyAction(USER, TIP, "bookmark", "tap-2")).toMatchObject({
+      outcome: "removed",
+      count: 0,
+      replayed: false,
+    });
+  });
+
+  it("waits before retrying a write conflict", async () => {
+    vi.useFakeTimers();
+    state.conflicts = 1;
+
+    const run = applyAction(USER, TIP, "bookmark");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(state.counts.bookmarksCount).toBe(0);
+    await vi.advanceTimersByTimeAsync(50);
+
+    await expect(run).resolves.toMatchObject({ outcome: "added", count: 1 });
+  });
+});
+
+describe("reconcileActionCounters", () => {
+  it("fixes drifted counters", async () => {
+    state.actions.add("like");
+    state.counts.likesCount = 3;
+
+    const { fixes, conflicts } = await reconcileActionCounters();
+
+    expect(fixes).toMatchObject([{ counter: "likesCount", from: 3, to: 1 }]);
+    expect(conflicts).toEqual([]);
+    expect(state.counts.likesCount).toBe(1);
+  });
+
+  it("skips a tip that keeps conflicting instead of failing the run", async () => {
+    vi.useFakeTimers();
+    state.counts.hidesCount = 2;
+    state.conflicts = 3;
+
+    const run = reconcileActionCounters();
+    await vi.advanceTimersByTimeAsync(1000);
+    const { fixes, conflicts } = await run;
+
+    expect(fixes).toEqual([]);
+    expect(conflicts).toMatchObject([{ counter: "hidesCount", from: 2 }]);
+  });
+});
@@ -0,0 +1,266 @@
+import type { ActionType, Prisma } from "@prisma/client";
+import { isPrismaError, prisma } from "@/lib/prisma";
+
+export const ACTION_TYPES = ["share", "bookmark", "like", "hide"] as const;
+
+// The `Tip` counter each action type maintains
+export const ACTION_COUNTERS = {
+  share: "sharesCount",
+  bookmark: "bookmarksCount",
+  like: "likesCount",
+  hide: "hidesCount",
+} as const satisfies Record<ActionType, string>;
+
+// Shares cannot be taken back; the other actions flip on every call
+export function isToggleAction(actionType: ActionType): boolean {
+  return actionType !== "share";
+}
+
+const COUNTER_SELECT = {
+  sharesCount: true,
+  bookmarksCount: true,
+  likesCount: true,
+  hidesCount: true,
+} satisfies Prisma.TipSelect;
+
+export function adjustCounter(
+  actionType: ActionType,
+  by: 1 | -1,
+): Prisma.TipUpdateInput {
+  return { [ACTION_COUNTERS[actionType]]: { increment: by } };
+}
+
+export type ActionOutcome = "added" | "removed" | "already_shared";
+
+export type ActionResult = {
+  outcome: ActionOutcome;
+  // Whether the action is in place after this call
+  active: boolean;
+  // The tip's counter for this action type after this call
+  count: number;
+  // True when the request id was seen before and nothing changed
+  replayed: boolean;
+};
+
+// Request ids only need to outlive a client's retries
+export const ACTION_REQUEST_TTL_DAYS = 2;
+
+// Concurrent taps on the same tip conflict inside MongoDB transactions
+const MAX_ACTION_ATTEMPTS = 3;
+const ACTION_RETRY_BASE_DELAY_MS = 50;
+
+/**
+ * Runs a transaction, retrying write conflicts (and the unique index firing
+ * under a race) after a short, growing wait. Jittered, so writers that
+ * collided once do not collide again.
+ */
+async function withConflictRetry<T>(
+  label: string,
+  run: () => Promise<T>,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const retryable =
+        isPrismaError(error, "P2034") || isPrismaError(error, "P2002");
+      if (!retryable || attempt >= MAX_ACTION_ATTEMPTS) throw error;
+      console.warn(
+        `[actions] ${label} conflicted, retrying (attempt ${attempt})`,
+      );
+      const delayMs = ACTION_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      await new Promise((resolve) =>
+        setTimeout(resolve, delayMs / 2 + Math.random() * (delayMs / 2)),
+      );
+    }
+  }
+}
+
+/**
+ * Records or toggles one user action on a tip. The `Action` row and the
+ * `Tip` counter change in one transaction, so they cannot drift apart. A
+ * race with a concurrent call is retried against the fresh state: a
+ * repeated share then reads as `already_shared` instead of failing.
+ *
+ * With a client `requestId`, a resent request replays the result it got
+ * the first time instead of toggling the action back.
+ */
+export async function applyAction(
+  userId: string,
+  tipId: string,
+  actionType: ActionType,
+  requestId?: string,
+): Promise<ActionResult> {
+  const counter = ACTION_COUNTERS[actionType];
+  const where = {
+    userId_tipId_actionType: { userId, tipId, actionType },
+  };
+
+  return withConflictRetry(`${actionType} on ${tipId}`, () =>
+    prisma.$transaction(async (tx) => {
+      const readCount = async () =>
+        (
+          await tx.tip.findUniqueOrThrow({
+            where: { id: tipId },
+            select: COUNTER_SELECT,
+          })
+        )[counter];
+
+      if (requestId) {
+        const seen = await tx.actionRequest.findUnique({
+          where: {
+            userId_tipId_actionType_requestId: {
+              userId,
+              tipId,
+              actionType,
+              requestId,
+            },
+          },
+        });
+        if (seen) {
+          return {
+            outcome: seen.outcome as ActionOutcome,
+            active: seen.active,
+            count: await readCount(),
+            replayed: true,
+          };
+        }
+      }
+
+      const existing = await tx.action.findUnique({ where });
+      let result: ActionResult;
+      if (existing && !isToggleAction(actionType)) {
+        result = {
+          outcome: "already_shared",
+          active: true,
+          count: await readCount(),
+          replayed: false,
+        };
+      } else {
+        if (existing) {
+          await tx.action.delete({ where });
+        } else {
+          await tx.action.create({ data: { userId, tipId, actionType } });
+        }
+        const tip = await tx.tip.update({
+          where: { id: tipId },
+          data: adjustCounter(actionType, existing ? -1 : 1),
+          select: COUNTER_SELECT,
+        });
+        result = {
+          outcome: existing ? "removed" : "added",
+          active: !existing,
+          count: tip[counter],
+          replayed: false,
+        };
+      }
+
+      if (requestId) {
+        await tx.actionRequest.create({
+          data: {
+            userId,
+            tipId,
+            actionType,
+            requestId,
+            outcome: result.outcome,
+            active: result.active,
+          },
+        });
+      }
+      return result;
+    }),
+  );
+}
+
+/**
+ * Drops request ids older than ACTION_REQUEST_TTL_DAYS; no client retries
+ * that late. Returns how many were (or, with `dryRun`, would be) deleted.
+ */
+export async function pruneActionRequests(
+  options: { dryRun?: boolean; now?: Date } = {},
+): Promise<number> {
+  const cutoff = new Date(
+    (options.now ?? new Date()).getTime() -
+      ACTION_REQUEST_TTL_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const where = { createdAt: { lt: cutoff } };
+
+  if (options.dryRun) return prisma.actionRequest.count({ where });
+  const { count } = await prisma.actionRequest.deleteMany({ where });
+  return count;
+}
+
+export type CounterFix = {
+  tipId: string;
+  actionType: ActionType;
+  counter: (typeof ACTION_COUNTERS)[ActionType];
+  from: number;
+  to: number;
+};
+
+/**
+ * Recomputes every tip's action counters from its `Action` rows and
+ * rewrites the ones that drifted, reporting each fix. With `dryRun` it
+ * only reports them. A fix that keeps conflicting with live actions is
+ * skipped and reported in `conflicts`; the next run picks it up.
+ */
+export async function reconcileActionCounters(
+  options: { dryRun?: boolean } = {},
+): Promise<{ scanned: number; fixes: CounterFix[]; conflicts: CounterFix[] }> {
+  const [groups, tips] = await Promise.all([
+    prisma.action.groupBy({
+      by: ["tipId", "actionType"],
+      _count: { _all: true },
+    }),
+    prisma.tip.findMany({ select: { id: true, ...COUNTER_SELECT } }),
+  ]);
+
+  const actual = new Map(
+    groups.map((g) => [`${g.tipId}:${g.actionType}`, g._count._all]),
+  );
+
+  const fixes: CounterFix[] = [];
+  for (const tip of tips) {
+    for (const actionType of ACTION_TYPES) {
+      const counter = ACTION_COUNTERS[actionType];
+      const expected = actual.get(`${tip.id}:${actionType}`) ?? 0;
+      if (tip[counter] !== expected) {
+        fixes.push({
+          tipId: tip.id,
+          actionType,
+          counter,
+          from: tip[counter],
+          to: expected,
+        });
+      }
+    }
+  }
+
+  if (options.dryRun) return { scanned: tips.length, fixes, conflicts: [] };
+
+  const applied: CounterFix[] = [];
+  const conflicts: CounterFix[] = [];
+  // Recounted in the transaction so actions since the snapshot are kept
+  for (const fix of fixes) {
+    try {
+      fix.to = await withConflictRetry(`recount of ${fix.tipId}`, () =>
+        prisma.$transaction(async (tx) => {
+          const count = await tx.action.count({
+            where: { tipId: fix.tipId, actionType: fix.actionType },
+          });
+          await tx.tip.update({
+            where: { id: fix.tipId },
+            data: { [fix.counter]: count },
+          });
+          return count;
+        }),
+      );
+      applied.push(fix);
+    } catch (error) {
+      if (!isPrismaError(error, "P2034")) throw error;
+      conflicts.push(fix);
+    }
+  }
+
+  return { scanned: tips.length, fixes: applied, conflicts };
+}
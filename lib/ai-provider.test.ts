@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateObject } from "ai";
+import { MockLanguageModelV1 } from "ai/test";
+import { z } from "zod";
+import {
+  ProviderChainError,
+  resolveProviderChain,
+  runWithFallback,
+  type ProviderTarget,
+} from "@/lib/ai-provider";
+
+const schema = z.object({ ok: z.boolean() });
+
+type Reply = Error | string;
+
+// A model that answers each call with the next reply: text, or a thrown error
+function fakeTarget(modelId: string, replies: Reply[]) {
+  let calls = 0;
+  const model = new MockLanguageModelV1({
+    defaultObjectGenerationMode: "json",
+    doGenerate: async () => {
+      calls++;
+      const reply = replies.shift() ?? new Error("No reply left");
+      if (reply instanceof Error) throw reply;
+      return {
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: "stop",
+        usage: { promptTokens: 1, completionTokens: 1 },
+        text: reply,
+      };
+    },
+  });
+  const target: ProviderTarget = { provider: "fake", modelId, model };
+  return { target, calls: () => calls };
+}
+
+function generate(targets: ProviderTarget[]) {
+  return runWithFallback(
+    (target, abortSignal) =>
+      generateObject({
+        model: target.model,
+        schema,
+        prompt: "test",
+        maxRetries: 0,
+        abortSignal,
+      }),
+    { targets },
+  );
+}
+
+beforeEach(() => {
+  vi.stubEnv("AI_MAX_ATTEMPTS", "2");
+  vi.stubEnv("AI_RETRY_BASE_DELAY_MS", "0");
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("runWithFallback", () => {
+  it("returns the first provider's answer", async () => {
+    const primary = fakeTarget("fake/primary", ['{"ok":true}']);
+    const backup = fakeTarget("fake/backup", ['{"ok":false}']);
+
+    const { result, target, attempts } = await generate([
+      primary.target,
+      backup.target,
+    ]);
+
+    expect(result.object).toEqual({ ok: true });
+    expect(target.modelId).toBe("fake/primary");
+    expect(attempts).toMatchObject([{ modelId: "fake/primary", ok: true }]);
+    expect(backup.calls()).toBe(0);
+  });
+
+  it("retries a failed call on the same provider", async () => {
+    const primary = fakeTarget("fake/primary", [
+      new Error("503 Service Unavailable"),
+      '{"ok":true}',
+    ]);
+
+    const { attempts } = await generate([primary.target]);
+
+    expect(attempts).toMatchObject([
+      { modelId: "fake/primary", attempt: 1, ok: false },
+      { modelId: "fake/primary", attempt: 2, ok: true },
+    ]);
+  });
+
+  it("backs off exponentially between retries", async () => {
+    vi.stubEnv("AI_MAX_ATTEMPTS", "3");
+    vi.stubEnv("AI_RETRY_BASE_DELAY_MS", "1000");
+    vi.useFakeTimers();
+    const primary = fakeTarget("fake/primary", [
+      new Error("timeout"),
+      new Error("timeout"),
+      '{"ok":true}',
+    ]);
+
+    const run = generate([primary.target]);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(primary.calls()).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(primary.calls()).toBe(2);
+    // The second wait doubles
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(primary.calls()).toBe(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(primary.calls()).toBe(3);
+
+    await expect(run).resolves.toMatchObject({
+      result: { object: { ok: true } },
+    });
+  });
+
+  it("falls back to the next provider once retries run out", async () => {
+    const primary = fakeTarget("fake/primary", [
+      new Error("rate limited"),
+      new Error("rate limited"),
+    ]);
+    const backup = fakeTarget("fake/backup", ['{"ok":true}']);
+
+    const { target, attempts } = await generate([
+      primary.target,
+      backup.target,
+    ]);
+
+    expect(target.modelId).toBe("fake/backup");
+    expect(attempts.map((a) => [a.modelId, a.ok])).toEqual([
+      ["fake/primary", false],
+      ["fake/primary", false],
+      ["fake/backup", true],
+    ]);
+  });
+
+  it("skips retries when the output does not match the schema", async () => {
+    const primary = fakeTarget("fake/primary", ['{"ok":"yes"}']);
+    const backup = fakeTarget("fake/backup", ['{"ok":true}']);
+
+    const { target } = await generate([primary.target, backup.target]);
+
+    expect(target.modelId).toBe("fake/backup");
+    expect(primary.calls()).toBe(1);
+  });
+
+  it("stops retrying once the deadline passes", async () => {
+    vi.stubEnv("AI_RETRY_BASE_DELAY_MS", "1000");
+    vi.useFakeTimers();
+    const primary = fakeTarget("fake/primary", [new Error("timeout")]);
+    const backup = fakeTarget("fake/backup", ['{"ok":true}']);
+
+    const run = runWithFallback(
+      (target, abortSignal) =>
+        generateObject({
+          model: target.model,
+          schema,
+          prompt: "test",
+          maxRetries: 0,
+          abortSignal,
+        }),
+      { targets: [primary.target, backup.target], deadline: Date.now() + 500 },
+    ).catch((e: unknown) => e);
+    await vi.advanceTimersByTimeAsync(500);
+    const error = await run;
+
+    expect(error).toBeInstanceOf(ProviderChainError);
+    expect((error as ProviderChainError).message).toContain("Deadline reached");
+    expect(primary.calls()).toBe(1);
+    expect(backup.calls()).toBe(0);
+  });
+
+  it("throws every attempt once the chain is exhausted", async () => {
+    const primary = fakeTarget("fake/primary", [
+      new Error("down"),
+      new Error("down"),
+    ]);
+    const backup = fakeTarget("fake/backup", ["not json"]);
+
+    const error = await generate([primary.target, backup.target]).catch(
+      (e: unknown) => e,
+    );
+
+    expect(error).toBeInstanceOf(ProviderChainError);
+    expect((error as ProviderChainError).attempts).toHaveLength(3);
+    expect((error as ProviderChainError).message).toContain(
+      "fake/primary → fake/backup",
+    );
+  });
+});
+
+describe("resolveProviderChain", () => {
+  it("follows AI_PROVIDER_CHAIN and applies a model override to the first", () => {
+    vi.stubEnv("AI_PROVIDER_CHAIN", "openai,gemini");
+
+    expect(
+      resolveProviderChain({ model: "gpt-4o" }).map((t) => t.modelId),
+    ).toEqual(["openai/gpt-4o", expect.stringMatching(/^gemini\//)]);
+  });
+
+  it("pins the chain to an explicit provider", () => {
+    vi.stubEnv("AI_PROVIDER_CHAIN", "openai,gemini");
+
+    expect(
+      resolveProviderChain({ provider: "gemini", model: "gemini-x" }).map(
+        (t) => t.modelId,
+      ),
+    ).toEqual(["gemini/gemini-x"]);
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  generateObject,
+  NoObjectGeneratedError,
+  TypeValidationError,
+  type EmbeddingModel,
+} from "ai";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAI } from "@ai-sdk/openai";
+
+const google = createGoogleGenerativeAI({
+  apiKey: process.env.GEMINI_API_KEY,
+});
+
+const openai = createOpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+export const AI_PROVIDERS = ["gemini", "openai"] as const;
+
+export type AIProvider = (typeof AI_PROVIDERS)[number];
+
+export type GenerationModel = Parameters<typeof generateObject>[0]["model"];
+
+export interface ProviderTarget {
+  provider: string;
+  modelId: string;
+  model: GenerationModel;
+}
+
+export interface ModelOverride {
+  provider?: AIProvider;
+  model?: string;
+  // Explicit chain that bypasses env resolution, e.g. a fake model in tests
+  targets?: ProviderTarget[];
+  // Epoch ms by which every chain sharing this override must finish: no
+  // attempt starts after it and running ones are cut off at it
+  deadline?: number;
+}
+
+// A type alias so attempt logs can be stored as Prisma JSON directly
+export type ProviderAttempt = {
+  modelId: string;
+  attempt: number;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+};
+
+export class ProviderChainError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: ProviderAttempt[],
+  ) {
+    super(message);
+    this.name = "ProviderChainError";
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+// Per attempt; `ModelOverride.deadline` bounds the whole chain
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 50000;
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function isConfigured(provider: AIProvider): boolean {
+  return provider === "openai"
+    ? !!process.env.OPENAI_API_KEY
+    : !!process.env.GEMINI_API_KEY;
+}
+
+function createTarget(provider: AIProvider, model?: string): ProviderTarget {
+  if (provider === "openai") {
+    const modelId = model || process.env.OPENAI_MODEL || "gpt-4o-mini";
+    return {
+      provider,
+      model: openai(modelId),
+      modelId: `openai/${modelId}`,
+    };
+  }
+  const modelId = model || process.env.GEMINI_MODEL || "gemini-2.0-flash";
+  return {
+    provider,
+    model: google(modelId),
+    modelId: `gemini/${modelId}`,
+  };
+}
+
+export function createEmbeddingTarget(provider: AIProvider): {
+  modelId: string;
+  model: EmbeddingModel<string>;
+} {
+  if (provider === "openai") {
+    const modelId =
+      process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+    return {
+      modelId: `openai/${modelId}`,
+      model: openai.textEmbeddingModel(modelId),
+    };
+  }
+  const modelId = process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004";
+  return {
+    modelId: `gemini/${modelId}`,
+    model: google.textEmbeddingModel(modelId),
+  };
+}
+
+/**
+ * Resolves the ordered provider chain. `AI_PROVIDER_CHAIN` (e.g.
+ * "gemini,openai") wins; otherwise `AI_PROVIDER` goes first and any other
+ * configured provider follows as a fallback. An explicit provider override
+ * pins the chain to that provider alone.
+ */
+export function resolveProviderChain(
+  override?: ModelOverride,
+): ProviderTarget[] {
+  if (override?.targets?.length) return override.targets;
+
+  if (override?.provider) {
+    return [createTarget(override.provider, override.model)];
+  }
+
+  const configured = (process.env.AI_PROVIDER_CHAIN || "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter((p): p is AIProvider =>
+      (AI_PROVIDERS as readonly string[]).includes(p),
+    );
+
+  const primary = (AI_PROVIDERS as readonly string[]).includes(
+    process.env.AI_PROVIDER || "",
+  )
+    ? (process.env.AI_PROVIDER as AIProvider)
+    : "gemini";
+
+  const chain = configured.length
+    ? configured
+    : [
+        primary,
+        ...AI_PROVIDERS.filter((p) => p !== primary && isConfigured(p)),
+      ];
+
+  // A model override only applies to the first provider in the chain
+  return [...new Set(chain)].map((provider, index) =>
+    createTarget(provider, index === 0 ? override?.model : undefined),
+  );
+}
+
+// Bad output will not get better by asking the same model again
+function isSchemaFailure(error: unknown): boolean {
+  return (
+    NoObjectGeneratedError.isInstance(error) ||
+    TypeValidationError.isInstance(error)
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * Runs `call` against each provider in the chain, retrying with exponential
+ * backoff before moving on. Schema failures skip straight to the next
+ * provider. Throws `ProviderChainError` with every attempt once the chain is
+ * exhausted or the override's deadline has passed.
+ */
+export async function runWithFallback<T>(
+  call: (target: ProviderTarget, abortSignal: AbortSignal) => Promise<T>,
+  override?: ModelOverride,
+): Promise<{ result: T; target: ProviderTarget; attempts: ProviderAttempt[] }> {
+  const chain = resolveProviderChain(override);
+  const maxAttempts = Math.max(
+    1,
+    envInt("AI_MAX_ATTEMPTS", DEFAULT_MAX_ATTEMPTS),
+  );
+  const baseDelayMs = envInt(
+    "AI_RETRY_BASE_DELAY_MS",
+    DEFAULT_RETRY_BASE_DELAY_MS,
+  );
+  const timeoutMs = envInt("AI_ATTEMPT_TIMEOUT_MS", DEFAULT_ATTEMPT_TIMEOUT_MS);
+  const deadline = override?.deadline ?? Number.POSITIVE_INFINITY;
+
+  const attempts: ProviderAttempt[] = [];
+
+  for (const target of chain) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw new ProviderChainError(
+          `Deadline reached after ${attempts.length} attempts (${chain.map((t) => t.modelId).join(" → ")})`,
+          attempts,
+        );
+      }
+
+      const startedAt = Date.now();
+      const controller = new AbortController();
+      const timeoutId = setTimeout(
+        () => controller.abort(),
+        Math.min(timeoutMs, remainingMs),
+      );
+
+      try {
+        const result = await call(target, controller.signal);
+        attempts.push({
+          modelId: target.modelId,
+          attempt,
+          ok: true,
+          durationMs: Date.now() - startedAt,
+        });
+        return { result, target, attempts };
+      } catch (error) {
+        attempts.push({
+          modelId: target.modelId,
+          attempt,
+          ok: false,
+          error: errorMessage(error),
+          durationMs: Date.now() - startedAt,
+        });
+        console.warn(
+          `[AI] ${target.modelId} attempt ${attempt}/${maxAttempts} failed: ${errorMessage(error)}`,
+        );
+
+        if (isSchemaFailure(error) || attempt === maxAttempts) break;
+        await new Promise((resolve) =>
+          setTimeout(
+            resolve,
+            Math.min(baseDelayMs * 2 ** (attempt - 1), deadline - Date.now()),
+          ),
+        );
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+  }
+
+  throw new ProviderChainError(
+    `All providers failed (${chain.map((t) => t.modelId).join(" → ")})`,
+    attempts,
+  );
+}
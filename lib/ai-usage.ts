@@ -0,0 +1,146 @@
+import { NoObjectGeneratedError, type LanguageModelUsage } from "ai";
+import { z } from "zod";
+import type { ProviderTarget } from "@/lib/ai-provider";
+
+// USD per million tokens
+const ModelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+});
+
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
+// Keyed by `ProviderTarget.modelId`; override or extend with AI_PRICE_TABLE
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  "gemini/gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini/gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini/gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini/gemini-2.5-pro": { input: 1.25, output: 10 },
+  "openai/gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "openai/gpt-4o": { input: 2.5, output: 10 },
+  "openai/gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "openai/gpt-4.1": { input: 2, output: 8 },
+};
+
+export function loadPriceTable(): Record<string, ModelPrice> {
+  const raw = process.env.AI_PRICE_TABLE;
+  if (!raw) return DEFAULT_PRICE_TABLE;
+
+  try {
+    return {
+      ...DEFAULT_PRICE_TABLE,
+      ...z.record(ModelPriceSchema).parse(JSON.parse(raw)),
+    };
+  } catch (error) {
+    console.error("[ai-usage] Invalid AI_PRICE_TABLE:", error);
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+// Mirrors the `TokenUsage` composite type in prisma/schema.prisma
+export type TokenUsage = {
+  provider: string;
+  modelId: string;
+  phase: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Null when the model is missing from the price table
+  costUsd: number | null;
+};
+
+function tokens(value: number | undefined): number {
+  return Number.isFinite(value) ? (value as number) : 0;
+}
+
+export function estimateCost(
+  modelId: string,
+  promptTokens: number,
+  completionTokens: number,
+  prices: Record<string, ModelPrice> = loadPriceTable(),
+): number | null {
+  const price = prices[modelId];
+  if (!price) return null;
+  return (
+    (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+  );
+}
+
+function usageEntry(
+  target: ProviderTarget,
+  phase: string,
+  usage: LanguageModelUsage,
+): TokenUsage {
+  const promptTokens = tokens(usage.promptTokens);
+  const completionTokens = tokens(usage.completionTokens);
+  return {
+    provider: target.provider,
+    modelId: target.modelId,
+    phase,
+    promptTokens,
+    completionTokens,
+    costUsd: estimateCost(target.modelId, promptTokens, completionTokens),
+  };
+}
+
+/**
+ * Runs one model call and appends its token usage to `log`, including calls
+ * whose output failed to parse, since those were still billed.
+ */
+export async function trackUsage<T extends { usage: LanguageModelUsage }>(
+  log: TokenUsage[],
+  target: ProviderTarget,
+  phase: string,
+  call: () => Promise<T>,
+): Promise<T> {
+  try {
+    const result = await call();
+    log.push(usageEntry(target, phase, result.usage));
+    return result;
+  } catch (error) {
+    if (NoObjectGeneratedError.isInstance(error) && error.usage) {
+      log.push(usageEntry(target, phase, error.usage));
+    }
+    throw error;
+  }
+}
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // Calls whose model had no price, so `costUsd` undercounts
+  unpricedCalls: number;
+};
+
+export function totalUsage(entries: TokenUsage[]): UsageTotals {
+  return entries.reduce<UsageTotals>(
+    (totals, entry) => ({
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + entry.promptTokens,
+      completionTokens: totals.completionTokens + entry.completionTokens,
+      costUsd: totals.costUsd + (entry.costUsd ?? 0),
+      unpricedCalls: totals.unpricedCalls + (entry.costUsd === null ? 1 : 0),
+    }),
+    {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      costUsd: 0,
+      unpricedCalls: 0,
+    },
+  );
+}
+
+export function groupUsage(
+  entries: TokenUsage[],
+  key: (entry: TokenUsage) => string,
+): Record<string, UsageTotals> {
+  const groups = new Map<string, TokenUsage[]>();
+  for (const entry of entries) {
+    groups.set(key(entry), [...(groups.get(key(entry)) ?? []), entry]);
+  }
+  return Object.fromEntries(
+    [...groups].map(([name, group]) => [name, totalUsage(group)]),
+  );
+}
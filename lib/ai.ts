@@ -1,54 +1,32 @@
-import { generateObject } from "ai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
-import { createOpenAI } from "@ai-sdk/openai";
+import { generateObject, jsonSchema, TypeValidationError, zodSchema } from "ai";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
-
-const google = createGoogleGenerativeAI({
-  apiKey: process.env.GEMINI_API_KEY,
-});
-
-const openai = createOpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-function getModel() {
-  const provider = process.env.AI_PROVIDER || "gemini";
-  if (provider === "openai" && process.env.OPENAI_API_KEY) {
-    const modelId = process.env.OPENAI_MODEL || "gpt-4o-mini";
-    return { model: openai(modelId), modelId: `openai/${modelId}` };
-  }
-  const modelId = process.env.GEMINI_MODEL || "gemini-2.0-flash";
-  return { model: google(modelId), modelId: `gemini/${modelId}` };
-}
-
-const TIP_CATEGORIES = [
-  "System Design",
-  "Performance",
-  "Data Structures",
-  "Algorithms",
-  "Security",
-  "JavaScript",
-  "Python",
-  "React",
-  "TypeScript",
-  "DevOps",
-  "Cloud",
-  "Docker",
-  "Kubernetes",
-  "Git",
-  "Database",
-  "Web",
-  "AI",
-  "Security",
-  "Testing",
-  "Node.js",
-  "AWS",
-  "Go",
-  "Rust",
-  "CSS",
-  "Mobile",
-];
+import { getCategories } from "@/lib/categories";
+import {
+  ProviderChainError,
+  runWithFallback,
+  type ModelOverride,
+  type ProviderAttempt,
+} from "@/lib/ai-provider";
+import {
+  salvageTips,
+  TIP_FIELD_LIMITS,
+  type SalvageRejection,
+  type SalvageRepair,
+} from "@/lib/tip-salvage";
+import { trackUsage, type TokenUsage } from "@/lib/ai-usage";
+import { BANNED_HEADLINE_WORDS } from "@/lib/tip-quality";
+import { parseTipSections, type TipSections } from "@/lib/tip-sections";
+import { normalizeTags } from "@/lib/tags";
+import {
+  CLAIM_PROVENANCES,
+  type ClaimProvenance,
+} from "@/lib/claim-provenance";
+import type { TipCritique } from "@/lib/tip-review";
+import {
+  findPromptTemplate,
+  selectPromptTemplate,
+} from "@/lib/prompt-templates";
 
 const HEADLINE_PATTERNS = [
   "How [Company] uses [Tech] to [outcome]",
@@ -101,190 +79,215 @@ const REAL_WORLD_COMPANIES = [
   "Square",
 ] as const;
 
-const TipSchema = z.object({
-  tip_text: z
-    .string()
-    .max(150)
-    .describe("Viral headline max 60 chars, specific outcome/number required"),
-  tip_summary: z
-    .string()
-    .max(400)
-    .describe("80-150 chars, 1-2 sentences with what + benefit"),
-  tip_detail: z
-    .string()
-    .max(3000)
-    .describe(
-      "500-800 chars: HOOK → TENSION → PAYOFF → WHEN_NOT → FAILURE → TAKEAWAY",
-    ),
-  code_snippet: z
-    .string()
-    .min(20)
-    .describe(
-      "REQUIRED: Language comment first line (// JavaScript, # Python, etc), then 5-15 lines of runnable code. ALWAYS provide code.",
-    ),
-  category: z.enum(TIP_CATEGORIES as [string, ...string[]]),
-  tags: z.array(z.string()).max(10).describe("2-4 lowercase tags"),
-  unique_topic: z.string().describe("Unique slug e.g. 'rust-wasm-components'"),
-  primary_tech: z
-    .string()
-    .describe("Single primary technology anchor for this tip"),
-  headline_pattern: z.string().describe("The headline pattern used"),
-  claim_provenance: z
-    .enum([
-      "benchmark-based",
-      "production-observed",
-      "community-reported",
-      "estimated-range",
-    ])
-    .describe("Source type for any numeric claims"),
-});
+export function buildTipSchema(categories: string[]) {
+  return z.object({
+    tip_text: z
+      .string()
+      .max(TIP_FIELD_LIMITS.tip_text)
+      .describe(
+        "Viral headline max 60 chars, specific outcome/number required",
+      ),
+    tip_summary: z
+      .string()
+      .max(TIP_FIELD_LIMITS.tip_summary)
+      .describe("80-150 chars, 1-2 sentences with what + benefit"),
+    tip_detail: z
+      .string()
+      .max(TIP_FIELD_LIMITS.tip_detail)
+      .superRefine((detail, ctx) => {
+        const { missing } = parseTipSections(detail);
+        if (missing.length > 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Missing sections: ${missing.join(", ")}`,
+          });
+        }
+      })
+      .describe(
+        "500-800 chars: HOOK → TENSION → PAYOFF → WHEN_NOT → FAILURE → TAKEAWAY",
+      ),
+    code_snippet: z
+      .string()
+      .min(20)
+      .describe(
+        "REQUIRED: Language comment first line (// JavaScript, # Python, etc), then 5-15 lines of runnable code. ALWAYS provide code.",
+      ),
+    category: z.enum(categories as [string, ...string[]]),
+    tags: z
+      .array(z.string())
+      .max(TIP_FIELD_LIMITS.tags)
+      .describe("2-4 lowercase tags"),
+    unique_topic: z
+      .string()
+      .describe("Unique slug e.g. 'rust-wasm-components'"),
+    primary_tech: z
+      .string()
+      .describe("Single primary technology anchor for this tip"),
+    company: z.string().describe("The real company this tip's story is about"),
+    headline_pattern: z.string().describe("The headline pattern used"),
+    claim_provenance: z
+      .enum(CLAIM_PROVENANCES)
+      .describe("Source type for any numeric claims"),
+  });
+}
 
-const TipsArraySchema = z.array(TipSchema);
+/**
+ * The strict item schema still guides the model, but the SDK only checks for
+ * an array so each element can be salvaged on its own.
+ */
+export function lenientArraySchema(itemSchema: z.ZodTypeAny) {
+  return jsonSchema<unknown[]>(zodSchema(z.array(itemSchema)).jsonSchema, {
+    validate: (value) =>
+      Array.isArray(value)
+        ? { success: true, value }
+        : { success: false, error: new Error("Expected an array of tips") },
+  });
+}
 
 export interface GeneratedTip {
   id: string;
   tip_text: string;
   tip_summary: string;
   tip_detail: string;
+  detail_sections: TipSections;
   code_snippet: string;
   category: string;
   tags: string[];
   unique_topic: string;
+  primary_tech: string;
+  company: string;
+  headline_pattern: string;
+  claim_provenance: ClaimProvenance;
+  ai_model: string;
+  prompt_version: string;
+  // Set when the batch went through the critique pass
+  critique?: TipCritique;
+}
+
+export interface TipExclusions {
+  techs: string[];
+  companies: string[];
+  headlinePatterns: string[];
+}
+
+// Caps exclusions (most recent first) so enough companies and patterns
+// remain. Techs are open-ended and stay uncapped: the dedup gate rejects
+// every tech in the window, so the prompt has to name them all
+function capExclusions(
+  count: number,
+  exclusions?: Partial<TipExclusions>,
+): TipExclusions {
+  return {
+    techs: exclusions?.techs ?? [],
+    companies: (exclusions?.companies ?? []).slice(
+      0,
+      Math.max(0, REAL_WORLD_COMPANIES.length - count),
+    ),
+    headlinePatterns: (exclusions?.headlinePatterns ?? []).slice(
+      0,
+      Math.max(0, HEADLINE_PATTERNS.length - count),
+    ),
+  };
+}
+
+function withoutExcluded<T extends string>(
+  values: readonly T[],
+  excluded: string[],
+): T[] {
+  const excludedLower = new Set(excluded.map((v) => v.toLowerCase()));
+  return values.filter((v) => !excludedLower.has(v.toLowerCase()));
 }
 
 export async function generateTips(
   count: number = 15,
   categories?: string[],
-  previouslyUsedTechs?: string[],
-): Promise<{ tips: GeneratedTip[]; model: string; error?: string }> {
+  exclusions?: Partial<TipExclusions>,
+  modelOverride?: ModelOverride,
+  promptVersion?: string,
+): Promise<{
+  tips: GeneratedTip[];
+  model: string;
+  promptVersion: string;
+  exclusions: TipExclusions;
+  attempts: ProviderAttempt[];
+  usage: TokenUsage[];
+  repaired: SalvageRepair[];
+  rejected: SalvageRejection[];
+  error?: string;
+}> {
+  // Without a plan, any active category the admins maintain
   const selectedCategories = categories?.length
-    ? categories
-    : TIP_CATEGORIES.slice(0, Math.min(count, TIP_CATEGORIES.length));
-
-  const previousTechsStr = previouslyUsedTechs?.length
-    ? `previously_used_primary_techs = [${previouslyUsedTechs.join(", ")}]. DO NOT reuse these as primary_tech.`
-    : "";
-
-  const prompt = `You are a professional viral tech-content generator for TL;Dev (mobile app for developers).
-Objective: produce EXACTLY ${count} COMPLETELY UNIQUE tips based on REAL engineering stories from real companies.
-
-═══════════════════════════════════════════════════════════════
-CORE IDENTITY: REAL-WORLD ENGINEERING STORIES
-═══════════════════════════════════════════════════════════════
-Every tip MUST be based on a real engineering decision, migration, architecture choice, or incident from a real tech company.
-Reference actual blog posts, tech talks, open-source projects, or well-known engineering practices.
-DO NOT invent fake company stories. Use real, verifiable engineering facts.
-
-Example headlines that define our style:
-- "Netflix Uses Binary Trees to Optimize Stream Quality"
-- "LinkedIn's Graph DB Handles 2M Queries/sec"
-- "Atlassian Saves $8M/yr With Protobuf Migration"
-- "Discord Stores Trillions of Messages Using Rust"
-- "Uber Cut Microservice Latency 40% With gRPC"
-- "Shopify Handles 80K RPS on Black Friday With Lua"
-- "Figma's Multiplayer Uses CRDTs, Not OT"
-
-Companies to reference (use DIFFERENT company per tip):
-${REAL_WORLD_COMPANIES.join(", ")}
-
-═══════════════════════════════════════════════════════════════
-IMPORTANT GLOBAL RULES
-═══════════════════════════════════════════════════════════════
-- ZERO duplicates: no two tips may share the same primary_tech, unique_topic slug, headline pattern, or company
-- EVERY headline MUST name a real company + real tech + specific metric/outcome
-- BANNED WORDS in headlines: ultimate, insane, amazing, awesome, powerful, magic, simple
-- Each tip must reference a DIFFERENT real company
-${previousTechsStr}
-
-═══════════════════════════════════════════════════════════════
-ALLOWED CATEGORIES: ${selectedCategories.join(", ")}
-═══════════════════════════════════════════════════════════════
-
-═══════════════════════════════════════════════════════════════
-STEP A — PLANNING (DO THIS FIRST MENTALLY)
-═══════════════════════════════════════════════════════════════
-Before generating, plan ${count} tips ensuring:
-1. Each unique_topic slug is DIFFERENT
-2. Each primary_tech is DIFFERENT (e.g., Protobuf, CRDTs, gRPC, Binary Trees, Kafka - use each ONLY ONCE)
-3. Each headline_pattern is DIFFERENT
-4. Each company is DIFFERENT (one company per tip)
-5. Each story is based on REAL engineering decisions (blog posts, talks, open-source)
-
-Available headline patterns (use each ONLY ONCE):
-${HEADLINE_PATTERNS.map((p, i) => `${i + 1}. "${p}"`).join("\n")}
-
-═══════════════════════════════════════════════════════════════
-STEP B — GENERATION RULES (per tip)
-═══════════════════════════════════════════════════════════════
-
-tip_text (HEADLINE):
-- Max 60 chars
-- MUST name a real company + real technology + specific number/outcome
-- Follow ONE of the headline patterns above (different for each tip)
-- Examples: "Stripe Processes 1M TPS With Ruby" or "Airbnb Cut Deploy Time 70% With Bazel"
-
-tip_summary (80-150 chars):
-- 1-2 sentences expanding the real-world engineering story
-- Mention the company context, the problem they faced, and the result
-
-tip_detail (500-800 chars) - STRICT STRUCTURE with EXPLICIT LABELS:
-Each section MUST start on a new line with its label prefix. The content should tell the REAL engineering story:
-HOOK: [1-2 sentences — the real problem the company faced at scale]
-TENSION: [2-3 sentences — what they tried before and why it failed]
-PAYOFF: [3-4 sentences — what they actually built/adopted and the real results]
-WHEN_NOT_TO_USE: [1-2 sentences — when this approach doesn't apply]
-FAILURE_STORY: [1 sentence — "Common mistake: specific real-world pitfall"]
-TAKEAWAY: [1 actionable line — "TL;DR: what you can adopt today"]
-IMPORTANT: Each label (HOOK:, TENSION:, PAYOFF:, WHEN_NOT_TO_USE:, FAILURE_STORY:, TAKEAWAY:) MUST appear literally at the start of its section, separated by newlines. Do NOT omit labels or merge sections.
-
-code_snippet (REQUIRED):
-- First line MUST be language comment: // JavaScript, # Python, -- SQL, etc.
-- 5-15 lines of RUNNABLE code demonstrating the core technique from the story
-- Show the actual pattern/algorithm/config the company uses
-- For architecture topics: show real config, proto definitions, or algorithm implementation
-- EVERY tip MUST have code. NO EXCEPTIONS.
-
-primary_tech:
-- The specific technology/concept (e.g., "Protobuf", "CRDTs", "B-Trees", "gRPC", "Kafka")
-- MUST be unique across all ${count} tips
-
-headline_pattern:
-- Which pattern from the list you used
-- MUST be unique across all ${count} tips
-
-claim_provenance:
-- For ANY numeric claim, specify: "benchmark-based" | "production-observed" | "community-reported" | "estimated-range"
-- Prefer "production-observed" since these are real company stories
-
-═══════════════════════════════════════════════════════════════
-GENERATE EXACTLY ${count} TIPS NOW
-═══════════════════════════════════════════════════════════════
-Remember:
-- ${count} different REAL companies (one per tip)
-- ${count} unique primary_tech values
-- ${count} unique headline_pattern values  
-- ${count} unique unique_topic slugs
-- Every headline: [Company] + [Tech] + [Specific metric/outcome]
-- Stories must be based on real, verifiable engineering decisions
-- NO banned words, NO generic advice — only real-world engineering`;
-
-  const { model, modelId } = getModel();
-
-  // Timeout after 50 seconds to stay within Vercel limits
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 50000);
+    ? [...new Set(categories)]
+    : (await getCategories()).map((c) => c.name);
+
+  const template =
+    (promptVersion && findPromptTemplate(promptVersion)) ||
+    selectPromptTemplate();
+
+  const applied = capExclusions(count, exclusions);
+  const availableCompanies = withoutExcluded(
+    REAL_WORLD_COMPANIES,
+    applied.companies,
+  );
+  const availablePatterns = withoutExcluded(
+    HEADLINE_PATTERNS,
+    applied.headlinePatterns,
+  );
+
+  const prompt = template.render({
+    count,
+    categories: selectedCategories,
+    categoryPlan: categories?.length === count ? categories : null,
+    companies: availableCompanies,
+    headlinePatterns: availablePatterns,
+    excludedTechs: applied.techs,
+    excludedCompanies: applied.companies,
+    bannedWords: BANNED_HEADLINE_WORDS,
+  });
+
+  const tipSchema = buildTipSchema(selectedCategories);
+  const lenientSchema = lenientArraySchema(tipSchema);
+  const usage: TokenUsage[] = [];
+  // Rejections from batches where nothing survived, kept for the job log
+  const failedBatchRejections: SalvageRejection[] = [];
 
   try {
-    const { object } = await generateObject({
-      model: model as Parameters<typeof generateObject>[0]["model"],
-      schema: TipsArraySchema,
-      prompt,
-      temperature: 0.4,
-      maxTokens: 16000,
-      abortSignal: controller.signal,
-    });
+    const {
+      result: { object, salvage },
+      target,
+      attempts,
+    } = await runWithFallback(async (target, abortSignal) => {
+      const { object } = await trackUsage(usage, target, "generation", () =>
+        generateObject({
+          model: target.model,
+          schema: lenientSchema,
+          prompt,
+          temperature: 0.4,
+          maxTokens: 16000,
+          maxRetries: 0,
+          abortSignal,
+        }),
+      );
+
+      const salvage = salvageTips(object, tipSchema, selectedCategories);
+      if (salvage.valid.length === 0) {
+        failedBatchRejections.push(...salvage.rejected);
+        // Counts as a schema failure, so the chain moves to the next provider
+        throw new TypeValidationError({
+          value: object,
+          cause: new Error(
+            `None of ${object.length} tips matched the schema: ${JSON.stringify(salvage.rejected.slice(0, 3))}`,
+          ),
+        });
+      }
+      return { object: salvage.valid, salvage };
+    }, modelOverride);
 
-    clearTimeout(timeoutId);
+    if (salvage.repaired.length || salvage.rejected.length) {
+      console.warn(
+        `[AI] Salvaged batch: ${salvage.repaired.length} repaired, ${salvage.rejected.length} rejected`,
+      );
+    }
 
     // Post-generation validation: check for duplicates
     const seenTopics = new Set<string>();
@@ -315,23 +318,48 @@ Remember:
         tip_text: tip.tip_text,
         tip_summary: tip.tip_summary,
         tip_detail: tip.tip_detail,
+        // Complete by construction: the schema rejects missing sections
+        detail_sections: parseTipSections(tip.tip_detail)
+          .sections as TipSections,
         code_snippet: tip.code_snippet,
         category: tip.category,
-        tags: tip.tags,
+        tags: normalizeTags(tip.tags),
         unique_topic: tip.unique_topic,
+        primary_tech: tip.primary_tech,
+        company: tip.company,
+        headline_pattern: tip.headline_pattern,
+        claim_provenance: tip.claim_provenance,
+        ai_model: target.modelId,
+        prompt_version: template.version,
       });
     }
 
     console.log(
-      `[AI] Generated ${object.length} tips, ${validTips.length} unique after dedup`,
+      `[AI] Generated ${object.length} tips with ${target.modelId}, ${validTips.length} unique after dedup`,
     );
 
-    return { tips: validTips, model: modelId };
+    return {
+      tips: validTips,
+      model: target.modelId,
+      promptVersion: template.version,
+      exclusions: applied,
+      attempts,
+      usage,
+      repaired: salvage.repaired,
+      rejected: [...failedBatchRejections, ...salvage.rejected],
+    };
   } catch (error) {
     console.error("AI generation error:", error);
+    const attempts = error instanceof ProviderChainError ? error.attempts : [];
     return {
       tips: [],
-      model: modelId,
+      model: attempts.at(-1)?.modelId ?? "unknown",
+      promptVersion: template.version,
+      exclusions: applied,
+      attempts,
+      usage,
+      repaired: [],
+      rejected: failedBatchRejections,
       error: error instanceof Error ? error.message : "Unknown error",
     };
   }
@@ -0,0 +1,18 @@
+import type { NextRequest } from "next/server";
+
+export function isAdminRequest(request: NextRequest): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  return (
+    !!adminKey && request.headers.get("authorization") === `Bearer ${adminKey}`
+  );
+}
+
+// Scheduled jobs: the cron secret, or the admin key for manual runs
+export function isCronRequest(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  return (
+    (!!cronSecret &&
+      request.headers.get("authorization") === `Bearer ${cronSecret}`) ||
+    isAdminRequest(request)
+  );
+}
@@ -0,0 +1,261 @@
+import { z } from "zod";
+import type { Category } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+export interface CategoryDefinition {
+  slug: string;
+  name: string;
+  imageQuery: string;
+  icon: string;
+  color: string;
+}
+
+/**
+ * Seed list used when the `Category` collection is empty. After the first
+ * seed, the database is the source of truth and admins edit it through
+ * /api/admin/categories.
+ */
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  {
+    slug: "system-design",
+    name: "System Design",
+    imageQuery: "system architecture server network",
+    icon: "🏗️",
+    color: "#7FEFEF",
+  },
+  {
+    slug: "performance",
+    name: "Performance",
+    imageQuery: "speed performance technology",
+    icon: "⚡",
+    color: "#F5C542",
+  },
+  {
+    slug: "data-structures",
+    name: "Data Structures",
+    imageQuery: "abstract data structure code",
+    icon: "🧱",
+    color: "#9B8CFF",
+  },
+  {
+    slug: "algorithms",
+    name: "Algorithms",
+    imageQuery: "algorithm mathematics code",
+    icon: "🧮",
+    color: "#6FD3A8",
+  },
+  {
+    slug: "security",
+    name: "Security",
+    imageQuery: "cybersecurity technology",
+    icon: "🔒",
+    color: "#FF6B6B",
+  },
+  {
+    slug: "javascript",
+    name: "JavaScript",
+    imageQuery: "javascript code programming",
+    icon: "🟨",
+    color: "#F7DF1E",
+  },
+  {
+    slug: "python",
+    name: "Python",
+    imageQuery: "python programming code",
+    icon: "🐍",
+    color: "#3776AB",
+  },
+  {
+    slug: "react",
+    name: "React",
+    imageQuery: "react programming interface",
+    icon: "⚛️",
+    color: "#61DAFB",
+  },
+  {
+    slug: "typescript",
+    name: "TypeScript",
+    imageQuery: "typescript code developer",
+    icon: "🔷",
+    color: "#3178C6",
+  },
+  {
+    slug: "devops",
+    name: "DevOps",
+    imageQuery: "devops server infrastructure",
+    icon: "🔁",
+    color: "#E8A5D8",
+  },
+  {
+    slug: "cloud",
+    name: "Cloud",
+    imageQuery: "cloud computing server",
+    icon: "☁️",
+    color: "#8AB4F8",
+  },
+  {
+    slug: "docker",
+    name: "Docker",
+    imageQuery: "container technology server",
+    icon: "🐳",
+    color: "#2496ED",
+  },
+  {
+    slug: "kubernetes",
+    name: "Kubernetes",
+    imageQuery: "kubernetes cloud infrastructure",
+    icon: "☸️",
+    color: "#326CE5",
+  },
+  {
+    slug: "git",
+    name: "Git",
+    imageQuery: "git version control code",
+    icon: "🌿",
+    color: "#F05032",
+  },
+  {
+    slug: "database",
+    name: "Database",
+    imageQuery: "database server technology",
+    icon: "🗄️",
+    color: "#4DB33D",
+  },
+  {
+    slug: "web",
+    name: "Web",
+    imageQuery: "web development code",
+    icon: "🌐",
+    color: "#5BC4C4",
+  },
+  {
+    slug: "ai",
+    name: "AI",
+    imageQuery: "artificial intelligence technology",
+    icon: "🤖",
+    color: "#D68FD6",
+  },
+  {
+    slug: "testing",
+    name: "Testing",
+    imageQuery: "software testing code",
+    icon: "🧪",
+    color: "#A3E635",
+  },
+  {
+    slug: "nodejs",
+    name: "Node.js",
+    imageQuery: "nodejs server programming",
+    icon: "🟩",
+    color: "#339933",
+  },
+  {
+    slug: "aws",
+    name: "AWS",
+    imageQuery: "aws cloud computing",
+    icon: "🟧",
+    color: "#FF9900",
+  },
+  {
+    slug: "go",
+    name: "Go",
+    imageQuery: "golang programming code",
+    icon: "🐹",
+    color: "#00ADD8",
+  },
+  {
+    slug: "rust",
+    name: "Rust",
+    imageQuery: "rust programming code",
+    icon: "🦀",
+    color: "#DEA584",
+  },
+  {
+    slug: "css",
+    name: "CSS",
+    imageQuery: "css web design",
+    icon: "🎨",
+    color: "#264DE4",
+  },
+  {
+    slug: "mobile",
+    name: "Mobile",
+    imageQuery: "mobile app development",
+    icon: "📱",
+    color: "#FF8A65",
+  },
+];
+
+export const CategoryInputSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .min(1)
+    .max(40)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "slug must be kebab-case"),
+  name: z.string().trim().min(1).max(40),
+  imageQuery: z.string().trim().min(1).max(120),
+  icon: z.string().trim().max(16).nullish(),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "color must be a hex value like #7FEFEF")
+    .nullish(),
+  active: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+export const CategoryUpdateSchema = CategoryInputSchema.omit({
+  slug: true,
+}).partial();
+
+export async function ensureDefaultCategories(): Promise<void> {
+  for (const [index, category] of DEFAULT_CATEGORIES.entries()) {
+    await prisma.category.upsert({
+      where: { slug: category.slug },
+      create: { ...category, sortOrder: index },
+      update: {},
+    });
+  }
+}
+
+export async function getCategories(
+  options: { includeInactive?: boolean } = {},
+): Promise<Category[]> {
+  const query = () =>
+    prisma.category.findMany({
+      where: options.includeInactive ? undefined : { active: true },
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    });
+
+  const categories = await query();
+  if (categories.length > 0 || (await prisma.category.count()) > 0) {
+    return categories;
+  }
+
+  console.log("[categories] Seeding default categories");
+  await ensureDefaultCategories();
+  return query();
+}
+
+/**
+ * Matches a client-supplied value against a category's slug or display
+ * name, case-insensitively.
+ */
+export function findCategory<T extends Pick<Category, "slug" | "name">>(
+  categories: T[],
+  value: string,
+): T | undefined {
+  const needle = value.trim().toLowerCase();
+  return categories.find(
+    (category) =>
+      category.slug === needle || category.name.toLowerCase() === needle,
+  );
+}
+
+// Tips store the display name; filters accept either slug or name
+export async function resolveCategoryNames(
+  values: string[],
+): Promise<string[]> {
+  const categories = await getCategories({ includeInactive: true });
+  return values.map((value) => findCategory(categories, value)?.name ?? value);
+}
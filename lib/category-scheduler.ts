@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getCategories } from "@/lib/categories";
+
+const STALENESS_CAP_DAYS = 30;
+
+const ScheduleConfigSchema = z.object({
+  // Relative preference, default 1. A weight of 2 makes a category twice as
+  // likely to be picked at the same published count and staleness.
+  weights: z.record(z.number().min(0)).default({}),
+  // Categories guaranteed a slot in every batch, regardless of score.
+  quotas: z.record(z.number().int().min(0)).default({}),
+});
+
+export type CategoryScheduleConfig = z.infer<typeof ScheduleConfigSchema>;
+
+export interface CategoryStats {
+  category: string;
+  published: number;
+  lastPublishedAt: Date | null;
+}
+
+export interface CategoryScore extends CategoryStats {
+  weight: number;
+  daysSinceLast: number;
+  score: number;
+}
+
+export interface CategoryScheduleDecision {
+  selected: string[];
+  quotaSlots: string[];
+  ranking: CategoryScore[];
+}
+
+export function loadScheduleConfig(): CategoryScheduleConfig {
+  const raw = process.env.CATEGORY_SCHEDULE;
+  if (!raw) return ScheduleConfigSchema.parse({});
+
+  try {
+    return ScheduleConfigSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    console.error("[category-scheduler] Invalid CATEGORY_SCHEDULE:", error);
+    return ScheduleConfigSchema.parse({});
+  }
+}
+
+/**
+ * Scores categories so under-served ones win: fewer published tips and a
+ * longer gap since the last one both push the score up.
+ */
+export function scoreCategories(
+  stats: CategoryStats[],
+  config: CategoryScheduleConfig,
+  now: Date = new Date(),
+): CategoryScore[] {
+  return stats
+    .map((entry) => {
+      const weight = config.weights[entry.category] ?? 1;
+      const daysSinceLast = entry.lastPublishedAt
+        ? Math.min(
+            (now.getTime() - entry.lastPublishedAt.getTime()) /
+              (24 * 60 * 60 * 1000),
+            STALENESS_CAP_DAYS,
+          )
+        : STALENESS_CAP_DAYS;
+
+      return {
+        ...entry,
+        weight,
+        daysSinceLast: Math.round(daysSinceLast * 10) / 10,
+        score: (weight * (daysSinceLast + 1)) / (entry.published + 1),
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.category.localeCompare(b.category));
+}
+
+export function pickCategories(
+  count: number,
+  stats: CategoryStats[],
+  config: CategoryScheduleConfig,
+  now: Date = new Date(),
+): CategoryScheduleDecision {
+  const ranking = scoreCategories(stats, config, now).filter(
+    (entry) => entry.weight > 0,
+  );
+
+  const quotaSlots: string[] = [];
+  for (const entry of ranking) {
+    const quota = config.quotas[entry.category] ?? 0;
+    for (let i = 0; i < quota && quotaSlots.length < count; i++) {
+      quotaSlots.push(entry.category);
+    }
+  }
+
+  const selected = [...quotaSlots];
+  // Fill remaining slots by score, cycling if the batch outnumbers categories
+  for (let round = 0; selected.length < count && ranking.length > 0; round++) {
+    for (const entry of ranking) {
+      if (selected.length >= count) break;
+      const used = selected.filter((c) => c === entry.category).length;
+      if (used <= round) selected.push(entry.category);
+    }
+  }
+
+  return { selected, quotaSlots, ranking };
+}
+
+export async function loadCategoryStats(): Promise<CategoryStats[]> {
+  const grouped = await prisma.tip.groupBy({
+    by: ["category"],
+    where: { status: "published" },
+    _count: { _all: true },
+    _max: { createdAt: true },
+  });
+
+  const byCategory = new Map(grouped.map((row) => [row.category, row]));
+  const categories = await getCategories();
+
+  return categories.map(({ name: category }) => {
+    const row = byCategory.get(category);
+    return {
+      category,
+      published: row?._count._all ?? 0,
+      lastPublishedAt: row?._max.createdAt ?? null,
+    };
+  });
+}
+
+export async function scheduleCategories(
+  count: number,
+): Promise<CategoryScheduleDecision> {
+  const stats = await loadCategoryStats();
+  return pickCategories(count, stats, loadScheduleConfig());
+}
+
+// JSON-safe view of a decision for `Job.summary`
+export function summarizeDecision(decision: CategoryScheduleDecision) {
+  return {
+    selected: decision.selected,
+    quotaSlots: decision.quotaSlots,
+    ranking: decision.ranking.map((entry) => ({
+      category: entry.category,
+      published: entry.published,
+      lastPublishedAt: entry.lastPublishedAt?.toISOString() ?? null,
+      daysSinceLast: entry.daysSinceLast,
+      weight: entry.weight,
+      score: Math.round(entry.score * 100) / 100,
+    })),
+  };
+}
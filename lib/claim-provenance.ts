@@ -0,0 +1,9 @@
+// Kept apart from lib/ai so public routes can validate without the AI SDKs
+export const CLAIM_PROVENANCES = [
+  "benchmark-based",
+  "production-observed",
+  "community-reported",
+  "estimated-range",
+] as const;
+
+export type ClaimProvenance = (typeof CLAIM_PROVENANCES)[number];
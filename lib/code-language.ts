@@ -0,0 +1,101 @@
+// Canonical language ids keyed by the spellings used in header comments
+const LANGUAGE_ALIASES: Record<string, string> = {
+  javascript: "javascript",
+  js: "javascript",
+  "node.js": "javascript",
+  nodejs: "javascript",
+  node: "javascript",
+  jsx: "javascript",
+  typescript: "typescript",
+  ts: "typescript",
+  tsx: "tsx",
+  python: "python",
+  py: "python",
+  go: "go",
+  golang: "go",
+  rust: "rust",
+  java: "java",
+  kotlin: "kotlin",
+  swift: "swift",
+  ruby: "ruby",
+  php: "php",
+  scala: "scala",
+  elixir: "elixir",
+  erlang: "erlang",
+  haskell: "haskell",
+  lua: "lua",
+  c: "c",
+  "c++": "cpp",
+  cpp: "cpp",
+  "c#": "csharp",
+  csharp: "csharp",
+  sql: "sql",
+  postgresql: "sql",
+  postgres: "sql",
+  mysql: "sql",
+  bash: "bash",
+  shell: "bash",
+  sh: "bash",
+  zsh: "bash",
+  yaml: "yaml",
+  yml: "yaml",
+  json: "json",
+  toml: "toml",
+  hcl: "hcl",
+  terraform: "hcl",
+  dockerfile: "dockerfile",
+  docker: "dockerfile",
+  protobuf: "protobuf",
+  proto: "protobuf",
+  graphql: "graphql",
+  html: "html",
+  css: "css",
+  nginx: "nginx",
+};
+
+// "// JavaScript", "# Python", "-- SQL", "/* CSS */", "<!-- HTML -->"
+const HEADER_COMMENT =
+  /^\s*(?:\/\/|#|--|;|\/\*|<!--)\s*([^\n]*?)\s*(?:\*\/|-->)?\s*$/;
+
+export type CodeHeader = {
+  // Canonical id, or null when the header names no known language
+  language: string | null;
+  // The header comment line as written
+  header: string | null;
+  // The snippet without its header line
+  code: string;
+};
+
+function languageOf(label: string): string | null {
+  const normalized = label.toLowerCase();
+  if (LANGUAGE_ALIASES[normalized]) return LANGUAGE_ALIASES[normalized];
+
+  // "TypeScript (Node 20)", "Python 3 - asyncio", "Go: worker pool"
+  const firstWord = normalized.split(/[\s:(),/–—-]+/).find(Boolean);
+  return (firstWord && LANGUAGE_ALIASES[firstWord]) || null;
+}
+
+/**
+ * Splits the language comment the prompt asks for off the first line of a
+ * snippet. Snippets without a recognizable header come back unchanged.
+ */
+export function parseCodeHeader(snippet: string): CodeHeader {
+  const trimmed = snippet.replace(/^\s*\n/, "");
+  const [firstLine, ...rest] = trimmed.split("\n");
+  const match = firstLine.match(HEADER_COMMENT);
+  const language = match ? languageOf(match[1]) : null;
+
+  // A comment that names no language is part of the code, not a header
+  if (!match || !language) {
+    return { language: null, header: null, code: snippet };
+  }
+
+  return {
+    language,
+    header: firstLine.trim(),
+    code: rest
+      .join("\n")
+      .replace(/^\s*\n/, "")
+      .trimEnd(),
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { analyzeCodeSnippet, checkSyntax } from "@/lib/code-syntax";
+
+describe("checkSyntax", () => {
+  it("accepts valid TypeScript that uses undeclared names", () => {
+    expect(
+      checkSyntax("const user: User = await db.find(id);", "typescript"),
+    ).toEqual({ checked: true, valid: true });
+  });
+
+  it("reports the line of a TypeScript syntax error", () => {
+    const result = checkSyntax("const a = 1;\nconst b = {;", "typescript");
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toMatch(/^Line 2: /);
+  });
+
+  it("parses JSX for JavaScript and TSX", () => {
+    expect(
+      checkSyntax("const el = <div>{name}</div>;", "javascript").valid,
+    ).toBe(true);
+    expect(checkSyntax("const el = <div>{name</div>;", "tsx").valid).toBe(
+      false,
+    );
+  });
+
+  it("checks YAML documents", () => {
+    expect(
+      checkSyntax(
+        "services:\n  web:\n    image: nginx\n---\nkind: Pod",
+        "yaml",
+      ),
+    ).toEqual({ checked: true, valid: true });
+
+    const result = checkSyntax("key: [unclosed\nother: value", "yaml");
+    expect(result.valid).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+
+  it("checks JSON", () => {
+    expect(checkSyntax('{"a": 1}', "json").valid).toBe(true);
+    expect(checkSyntax("{a: 1}", "json").valid).toBe(false);
+  });
+
+  it("skips languages without a local parser", () => {
+    expect(checkSyntax("def broken(:", "python")).toEqual({
+      checked: false,
+      valid: true,
+    });
+    expect(checkSyntax("anything", null).checked).toBe(false);
+  });
+});
+
+describe("analyzeCodeSnippet", () => {
+  it("checks the code under the language header", () => {
+    const analysis = analyzeCodeSnippet("# YAML\nreplicas: 3\nimage: app");
+
+    expect(analysis.language).toBe("yaml");
+    expect(analysis.syntax).toEqual({ checked: true, valid: true });
+  });
+});
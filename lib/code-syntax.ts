@@ -0,0 +1,95 @@
+import ts from "typescript";
+import { parseAllDocuments } from "yaml";
+import { parseCodeHeader, type CodeHeader } from "@/lib/code-language";
+
+export type SyntaxCheck = {
+  // False when the language has no local parser
+  checked: boolean;
+  valid: boolean;
+  error?: string;
+};
+
+const TS_FILE_NAMES: Record<string, string> = {
+  javascript: "snippet.jsx",
+  typescript: "snippet.ts",
+  tsx: "snippet.tsx",
+};
+
+// Only syntax errors are reported; snippets reference undeclared names
+function checkTypeScript(code: string, fileName: string): SyntaxCheck {
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.Latest,
+      module: ts.ModuleKind.ESNext,
+      jsx: ts.JsxEmit.Preserve,
+    },
+  });
+
+  const [first] = diagnostics;
+  if (!first) return { checked: true, valid: true };
+
+  const line =
+    first.file && first.start !== undefined
+      ? first.file.getLineAndCharacterOfPosition(first.start).line + 1
+      : null;
+  const message = ts.flattenDiagnosticMessageText(first.messageText, " ");
+  return {
+    checked: true,
+    valid: false,
+    error: line ? `Line ${line}: ${message}` : message,
+  };
+}
+
+function checkJson(code: string): SyntaxCheck {
+  try {
+    JSON.parse(code);
+    return { checked: true, valid: true };
+  } catch (error) {
+    return {
+      checked: true,
+      valid: false,
+      error: error instanceof Error ? error.message : "Invalid JSON",
+    };
+  }
+}
+
+function checkYaml(code: string): SyntaxCheck {
+  const error = parseAllDocuments(code)
+    .flatMap((doc) => ("errors" in doc ? doc.errors : []))
+    .at(0);
+  return error
+    ? {
+        checked: true,
+        valid: false,
+        error: error.message.split("\n")[0].replace(/:$/, ""),
+      }
+    : { checked: true, valid: true };
+}
+
+/**
+ * Parses code locally for the languages we have parsers for: JS/TS through
+ * the TypeScript compiler API, JSON and YAML. Other languages come back with
+ * `checked: false` and are never flagged.
+ */
+export function checkSyntax(
+  code: string,
+  language: string | null,
+): SyntaxCheck {
+  if (language && TS_FILE_NAMES[language]) {
+    return checkTypeScript(code, TS_FILE_NAMES[language]);
+  }
+  if (language === "json") return checkJson(code);
+  if (language === "yaml") return checkYaml(code);
+  return { checked: false, valid: true };
+}
+
+export type CodeAnalysis = CodeHeader & {
+  syntax: SyntaxCheck;
+};
+
+export function analyzeCodeSnippet(snippet: string): CodeAnalysis {
+  const parsed = parseCodeHeader(snippet);
+  return { ...parsed, syntax: checkSyntax(parsed.code, parsed.language) };
+}
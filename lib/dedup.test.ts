@@ -0,0 +1,222 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import type { GeneratedTip } from "@/lib/ai";
+import {
+  createHeadlineCheck,
+  createTechCheck,
+  dedupeAgainstCorpus,
+  dedupeRevisions,
+  findDuplicate,
+  normalizeHeadline,
+  techCheck,
+  topicCheck,
+  type TipFingerprint,
+} from "@/lib/dedup";
+
+function tip(overrides: Partial<GeneratedTip>): GeneratedTip {
+  return {
+    id: "tip",
+    tip_text: "How Stripe uses Redis to cut latency",
+    tip_summary: "",
+    tip_detail: "",
+    detail_sections: {} as GeneratedTip["detail_sections"],
+    code_snippet: "",
+    category: "backend",
+    tags: [],
+    unique_topic: "stripe-redis-latency",
+    primary_tech: "Redis",
+    company: "Stripe",
+    headline_pattern: "",
+    claim_provenance: "production-observed",
+    ai_model: "test",
+    prompt_version: "v1",
+    ...overrides,
+  };
+}
+
+const corpus: TipFingerprint[] = [
+  {
+    id: "t1",
+    headline: "Discord stores trillions of messages with ScyllaDB",
+    topic: "discord-scylla-messages",
+    tech: "ScyllaDB",
+  },
+];
+
+describe("normalizeHeadline", () => {
+  it("drops case, punctuation, possessives and stop words", () => {
+    expect(normalizeHeadline("Inside Discord's ScyllaDB: How it scales!")).toBe(
+      "inside discord scylladb it scales",
+    );
+  });
+});
+
+describe("topicCheck and techCheck", () => {
+  it("match keys regardless of case and punctuation", () => {
+    expect(
+      topicCheck({ headline: "x", topic: "Discord_Scylla Messages" }, corpus),
+    ).toMatchObject({ check: "topic", matchedTipId: "t1" });
+    expect(
+      techCheck({ headline: "x", tech: "scylla-db" }, corpus),
+    ).toMatchObject({ check: "tech", matchedTipId: "t1" });
+  });
+
+  it("lets a tech through once its last use is outside the window", () => {
+    const old = [
+      { ...corpus[0], createdAt: new Date(Date.now() - 30 * 86_400_000) },
+    ];
+    expect(techCheck({ headline: "x", tech: "ScyllaDB" }, old)).toBeNull();
+    expect(
+      createTechCheck(60)({ headline: "x", tech: "ScyllaDB" }, old),
+    ).toMatchObject({ check: "tech" });
+  });
+
+  it("ignore candidates without the field", () => {
+    expect(topicCheck({ headline: "x" }, corpus)).toBeNull();
+    expect(techCheck({ headline: "x", tech: "" }, corpus)).toBeNull();
+  });
+});
+
+describe("createHeadlineCheck", () => {
+  const check = createHeadlineCheck(0.7);
+
+  it("flags identical normalized headlines", () => {
+    expect(
+      check(
+        { headline: "Discord stores trillions of messages using ScyllaDB" },
+        corpus,
+      ),
+    ).toMatchObject({ reason: "identical normalized headline" });
+  });
+
+  it("ignores numbers and plurals", () => {
+    expect(
+      check(
+        { headline: "Discord stores 4 trillion message with ScyllaDB" },
+        corpus,
+      ),
+    ).toMatchObject({ check: "headline", matchedTipId: "t1" });
+  });
+
+  it("lets different stories through", () => {
+    expect(
+      check({ headline: "Figma renders multiplayer cursors in Rust" }, corpus),
+    ).toBeNull();
+  });
+});
+
+describe("findDuplicate", () => {
+  it("returns the first check that matches", () => {
+    const match = findDuplicate(
+      {
+        headline: "Discord stores trillions of messages with ScyllaDB",
+        topic: "discord-scylla-messages",
+      },
+      corpus,
+    );
+    expect(match?.check).toBe("topic");
+  });
+
+  it("runs only the checks it is given", () => {
+    expect(
+      findDuplicate(
+        { headline: "x", topic: "discord-scylla-messages" },
+        corpus,
+        [techCheck],
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("dedupeAgainstCorpus", () => {
+  it("rejects tips that collide with the corpus or an earlier tip", () => {
+    const first = tip({ id: "a" });
+    const repeat = tip({
+      id: "b",
+      tip_text: "Stripe uses Redis to cut its latency",
+      unique_topic: "stripe-redis-latency-2",
+      primary_tech: "Redis Cluster",
+    });
+    const known = tip({
+      id: "c",
+      tip_text: "Why Discord moved its messages off Cassandra",
+      unique_topic: "discord-scylla-messages",
+      primary_tech: "Cassandra",
+    });
+
+    const { accepted, rejected } = dedupeAgainstCorpus(
+      [first, repeat, known],
+      corpus,
+    );
+
+    expect(accepted.map((t) => t.id)).toEqual(["a"]);
+    expect(rejected.map((r) => [r.tip.id, r.match.check])).toEqual([
+      ["b", "headline"],
+      ["c", "topic"],
+    ]);
+  });
+});
+
+describe("dedupeRevisions", () => {
+  const critique = {
+    passed: false,
+    revised: true,
+    model: "test",
+    notes: [],
+  };
+
+  it("keeps revisions that stay unique and reverts ones that collide", () => {
+    const drafts = [
+      tip({ id: "a" }),
+      tip({
+        id: "b",
+        tip_text: "Figma renders multiplayer cursors in Rust",
+        unique_topic: "figma-rust-cursors",
+        primary_tech: "Rust",
+        company: "Figma",
+      }),
+    ];
+    const reviewed = [
+      { ...drafts[0], tip_text: "Stripe cut Redis latency by 40%", critique },
+      // The revision drifted onto a story the corpus already has
+      {
+        ...drafts[1],
+        tip_text: "Discord stores trillions of messages with ScyllaDB",
+        critique,
+      },
+    ];
+
+    const { tips, reverted } = dedupeRevisions(drafts, reviewed, corpus);
+
+    expect(tips[0]).toBe(reviewed[0]);
+    expect(tips[1]).toEqual({
+      ...drafts[1],
+      critique: { ...critique, revised: false },
+    });
+    expect(reverted.map((r) => [r.tip.id, r.match.check])).toEqual([
+      ["b", "headline"],
+    ]);
+  });
+
+  it("checks a revision against the drafts after it", () => {
+    const drafts = [
+      tip({ id: "a" }),
+      tip({
+        id: "b",
+        tip_text: "Figma renders multiplayer cursors in Rust",
+        unique_topic: "figma-rust-cursors",
+        primary_tech: "Rust",
+      }),
+    ];
+    const reviewed = [
+      { ...drafts[0], unique_topic: "figma-rust-cursors", critique },
+      drafts[1],
+    ];
+
+    const { tips } = dedupeRevisions(drafts, reviewed, corpus);
+
+    expect(tips[0].unique_topic).toBe("stripe-redis-latency");
+  });
+});
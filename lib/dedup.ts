@@ -0,0 +1,295 @@
+import { prisma } from "@/lib/prisma";
+import type { GeneratedTip } from "@/lib/ai";
+import { EXCLUSION_WINDOW_DAYS } from "@/lib/exclusions";
+
+export interface TipFingerprint {
+  id?: string;
+  headline: string;
+  topic?: string | null;
+  tech?: string | null;
+  company?: string | null;
+  // Unset for tips not stored yet, e.g. earlier tips of the same batch
+  createdAt?: Date;
+}
+
+export interface DuplicateMatch {
+  check: string;
+  reason: string;
+  matchedTipId?: string;
+  matchedHeadline: string;
+}
+
+/**
+ * A similarity check compares a candidate against the known corpus and
+ * returns the first collision it finds. Checks are plain functions so they
+ * can be swapped or unit-tested without a database.
+ */
+export type SimilarityCheck = (
+  candidate: TipFingerprint,
+  corpus: TipFingerprint[],
+) => DuplicateMatch | null;
+
+export interface DedupRejection {
+  tip: GeneratedTip;
+  match: DuplicateMatch;
+}
+
+const HEADLINE_STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "by",
+  "for",
+  "from",
+  "how",
+  "in",
+  "its",
+  "of",
+  "on",
+  "the",
+  "to",
+  "uses",
+  "using",
+  "with",
+  "why",
+]);
+
+function normalizeKey(value: string | null | undefined): string {
+  return (value || "").toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+export function normalizeHeadline(headline: string): string {
+  return headline
+    .toLowerCase()
+    .replace(/'s\b/g, "")
+    .replace(/[^a-z0-9\s]+/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !HEADLINE_STOP_WORDS.has(word))
+    .join(" ");
+}
+
+// Drops numbers and a trailing plural "s" so small rewordings still match
+function headlineTokens(headline: string): Set<string> {
+  return new Set(
+    normalizeHeadline(headline)
+      .split(" ")
+      .filter((word) => word && !/^\d+[a-z%]*$/.test(word))
+      .map((word) => (word.length > 3 ? word.replace(/s$/, "") : word)),
+  );
+}
+
+function matchOf(
+  check: string,
+  reason: string,
+  existing: TipFingerprint,
+): DuplicateMatch {
+  return {
+    check,
+    reason,
+    matchedTipId: existing.id,
+    matchedHeadline: existing.headline,
+  };
+}
+
+export const topicCheck: SimilarityCheck = (candidate, corpus) => {
+  const topic = normalizeKey(candidate.topic);
+  if (!topic) return null;
+
+  const existing = corpus.find((tip) => normalizeKey(tip.topic) === topic);
+  return existing
+    ? matchOf(
+        "topic",
+        `unique_topic "${candidate.topic}" already used`,
+        existing,
+      )
+    : null;
+};
+
+/**
+ * Flags a primary tech used within the last `windowDays`, the window the
+ * prompt exclusions steer away from too. Older tips may share a tech, or
+ * the corpus would eventually reject nearly every draft.
+ */
+export function createTechCheck(
+  windowDays: number = EXCLUSION_WINDOW_DAYS,
+): SimilarityCheck {
+  return (candidate, corpus) => {
+    const tech = normalizeKey(candidate.tech);
+    if (!tech) return null;
+
+    const since = Date.now() - windowDays * 24 * 60 * 60 * 1000;
+    const existing = corpus.find(
+      (tip) =>
+        normalizeKey(tip.tech) === tech &&
+        (!tip.createdAt || tip.createdAt.getTime() >= since),
+    );
+    return existing
+      ? matchOf(
+          "tech",
+          `primary_tech "${candidate.tech}" used in the last ${windowDays} days`,
+          existing,
+        )
+      : null;
+  };
+}
+
+export const techCheck = createTechCheck();
+
+/**
+ * Flags headlines whose word sets overlap by at least `threshold` (Jaccard).
+ * Numbers are ignored so "Discord stores trillions of messages" and
+ * "Discord stores 4 trillion messages" still collide.
+ */
+export function createHeadlineCheck(threshold: number = 0.7): SimilarityCheck {
+  return (candidate, corpus) => {
+    const normalized = normalizeHeadline(candidate.headline);
+    const tokens = headlineTokens(candidate.headline);
+    if (tokens.size === 0) return null;
+
+    for (const tip of corpus) {
+      if (normalizeHeadline(tip.headline) === normalized) {
+        return matchOf("headline", "identical normalized headline", tip);
+      }
+
+      const other = headlineTokens(tip.headline);
+      if (other.size === 0) continue;
+
+      let shared = 0;
+      for (const token of tokens) {
+        if (other.has(token)) shared++;
+      }
+      const similarity = shared / (tokens.size + other.size - shared);
+
+      if (similarity >= threshold) {
+        return matchOf(
+          "headline",
+          `headline similarity ${similarity.toFixed(2)} >= ${threshold}`,
+          tip,
+        );
+      }
+    }
+    return null;
+  };
+}
+
+export const DEFAULT_SIMILARITY_CHECKS: SimilarityCheck[] = [
+  topicCheck,
+  techCheck,
+  createHeadlineCheck(),
+];
+
+export function fingerprintOf(tip: GeneratedTip): TipFingerprint {
+  return {
+    headline: tip.tip_text,
+    topic: tip.unique_topic,
+    tech: tip.primary_tech,
+    company: tip.company,
+  };
+}
+
+export function findDuplicate(
+  candidate: TipFingerprint,
+  corpus: TipFingerprint[],
+  checks: SimilarityCheck[] = DEFAULT_SIMILARITY_CHECKS,
+): DuplicateMatch | null {
+  for (const check of checks) {
+    const match = check(candidate, corpus);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Splits generated tips into accepted and rejected against the corpus.
+ * Accepted tips are added to the working corpus so later tips in the same
+ * batch are checked against them too.
+ */
+export function dedupeAgainstCorpus(
+  tips: GeneratedTip[],
+  corpus: TipFingerprint[],
+  checks: SimilarityCheck[] = DEFAULT_SIMILARITY_CHECKS,
+): { accepted: GeneratedTip[]; rejected: DedupRejection[] } {
+  const working = [...corpus];
+  const accepted: GeneratedTip[] = [];
+  const rejected: DedupRejection[] = [];
+
+  for (const tip of tips) {
+    const fingerprint = fingerprintOf(tip);
+    const match = findDuplicate(fingerprint, working, checks);
+
+    if (match) {
+      rejected.push({ tip, match });
+      continue;
+    }
+
+    accepted.push(tip);
+    working.push(fingerprint);
+  }
+
+  return { accepted, rejected };
+}
+
+/**
+ * Re-checks tips the critique pass revised, since a revision can change the
+ * headline and topic the drafts were deduplicated on. Each revision is
+ * checked against the corpus, the tips kept before it and the drafts after
+ * it; one that now collides falls back to its draft, which already passed.
+ * `reviewed` must line up with `drafts` index by index.
+ */
+export function dedupeRevisions(
+  drafts: GeneratedTip[],
+  reviewed: GeneratedTip[],
+  corpus: TipFingerprint[],
+  checks: SimilarityCheck[] = DEFAULT_SIMILARITY_CHECKS,
+): { tips: GeneratedTip[]; reverted: DedupRejection[] } {
+  const tips: GeneratedTip[] = [];
+  const reverted: DedupRejection[] = [];
+
+  reviewed.forEach((tip, i) => {
+    if (!tip.critique?.revised) {
+      tips.push(tip);
+      return;
+    }
+
+    const others = [
+      ...corpus,
+      ...tips.map(fingerprintOf),
+      ...drafts.slice(i + 1).map(fingerprintOf),
+    ];
+    const match = findDuplicate(fingerprintOf(tip), others, checks);
+    if (match) {
+      reverted.push({ tip, match });
+      tips.push({
+        ...drafts[i],
+        critique: { ...tip.critique, revised: false },
+      });
+    } else {
+      tips.push(tip);
+    }
+  });
+
+  return { tips, reverted };
+}
+
+export async function loadCorpusFingerprints(): Promise<TipFingerprint[]> {
+  const tips = await prisma.tip.findMany({
+    where: { status: { not: "failed" } },
+    select: {
+      id: true,
+      tipText: true,
+      uniqueTopic: true,
+      primaryTech: true,
+      company: true,
+      createdAt: true,
+    },
+  });
+
+  return tips.map((tip) => ({
+    id: tip.id,
+    headline: tip.tipText,
+    topic: tip.uniqueTopic,
+    tech: tip.primaryTech,
+    company: tip.company,
+    createdAt: tip.createdAt,
+  }));
+}
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type DeviceRow = {
+  recoveryCodeHash: string | null;
+  recoverySentAt: Date | null;
+  recoveryExpiresAt: Date | null;
+  recoveryAttempts: number;
+  user: { pushToken: string | null };
+};
+
+let device: DeviceRow;
+const sendPushNotification = vi.fn();
+
+vi.mock("@/lib/push", () => ({
+  sendPushNotification: (...args: unknown[]) => sendPushNotification(...args),
+}));
+
+// Enough of prisma.device for the recovery queries
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    device: {
+      findUnique: async () => device,
+      update: async ({ data }: { data: Partial<DeviceRow> }) =>
+        Object.assign(device, data),
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: {
+          recoveryExpiresAt?: { gt: Date };
+          recoveryAttempts?: { lt: number };
+          recoveryCodeHash?: string;
+        };
+        data: Record<string, unknown>;
+      }) => {
+        const matches =
+          (!where.recoveryExpiresAt ||
+            (device.recoveryExpiresAt?.getTime() ?? 0) >
+              where.recoveryExpiresAt.gt.getTime()) &&
+          (!where.recoveryAttempts ||
+            device.recoveryAttempts < where.recoveryAttempts.lt) &&
+          (where.recoveryCodeHash === undefined ||
+            device.recoveryCodeHash === where.recoveryCodeHash);
+        if (!matches) return { count: 0 };
+        if (data.recoveryAttempts) device.recoveryAttempts += 1;
+        else Object.assign(device, data);
+        return { count: 1 };
+      },
+    },
+  },
+}));
+
+import { redeemRecoveryCode, startDeviceRecovery } from "@/lib/device-recovery";
+
+const DEVICE_ID = "device-1234";
+const NOW = new Date("2026-10-01T00:00:00Z");
+
+// Starts recovery and returns the code that was pushed
+async function pushedCode(): Promise<string> {
+  const result = await startDeviceRecovery(DEVICE_ID, NOW);
+  expect(result).toMatchObject({ ok: true });
+  return sendPushNotification.mock.calls.at(-1)![0].data.code;
+}
+
+beforeEach(() => {
+  device = {
+    recoveryCodeHash: null,
+    recoverySentAt: null,
+    recoveryExpiresAt: null,
+    recoveryAttempts: 0,
+    user: { pushToken: "ExponentPushToken[abc]" },
+  };
+  sendPushNotification.mockReset();
+  sendPushNotification.mockResolvedValue({ status: "ok", id: "ticket" });
+});
+
+describe("device recovery", () => {
+  it("accepts the pushed code once", async () => {
+    const code = await pushedCode();
+
+    expect(await redeemRecoveryCode(DEVICE_ID, code, NOW)).toBe(true);
+    expect(await redeemRecoveryCode(DEVICE_ID, code, NOW)).toBe(false);
+  });
+
+  it("rejects expired codes", async () => {
+    const code = await pushedCode();
+    const later = new Date(NOW.getTime() + 11 * 60 * 1000);
+
+    expect(await redeemRecoveryCode(DEVICE_ID, code, later)).toBe(false);
+  });
+
+  it("locks the code after too many wrong guesses", async () => {
+    const code = await pushedCode();
+    const wrong = code === "000000" ? "000001" : "000000";
+
+    for (let i = 0; i < 5; i++) {
+      expect(await redeemRecoveryCode(DEVICE_ID, wrong, NOW)).toBe(false);
+    }
+    expect(await redeemRecoveryCode(DEVICE_ID, code, NOW)).toBe(false);
+  });
+
+  it("needs a push token and spaces out resends", async () => {
+    await pushedCode();
+    expect(await startDeviceRecovery(DEVICE_ID, NOW)).toEqual({
+      ok: false,
+      reason: "too_soon",
+    });
+
+    device.user.pushToken = null;
+    expect(
+      await startDeviceRecovery(DEVICE_ID, new Date(NOW.getTime() + 120_000)),
+    ).toEqual({ ok: false, reason: "no_push_token" });
+  });
+});
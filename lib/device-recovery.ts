@@ -0,0 +1,111 @@
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { sendPushNotification } from "@/lib/push";
+
+/**
+ * Recovery for installs that lost their device token, e.g. after a
+ * reinstall. A six-digit code goes to the push token on file for the
+ * device's user, which only the real install can receive, and registration
+ * accepts that code in place of the old token.
+ */
+
+const RECOVERY_CODE_TTL_MS = 10 * 60 * 1000;
+// Minimum gap between codes, so the endpoint cannot be used to spam pushes
+const RECOVERY_RESEND_MS = 60 * 1000;
+const MAX_RECOVERY_ATTEMPTS = 5;
+
+export type RecoveryStartResult =
+  | { ok: true; expiresAt: Date }
+  | {
+      ok: false;
+      reason: "unknown_device" | "no_push_token" | "too_soon" | "send_failed";
+    };
+
+function hashCode(deviceId: string, code: string): string {
+  return createHash("sha256").update(`${deviceId}:${code}`).digest("hex");
+}
+
+/**
+ * Pushes a fresh recovery code to the device's user, replacing any earlier
+ * code.
+ */
+export async function startDeviceRecovery(
+  deviceId: string,
+  now: Date = new Date(),
+): Promise<RecoveryStartResult> {
+  const device = await prisma.device.findUnique({
+    where: { deviceId },
+    select: { recoverySentAt: true, user: { select: { pushToken: true } } },
+  });
+  if (!device) return { ok: false, reason: "unknown_device" };
+  if (!device.user.pushToken) return { ok: false, reason: "no_push_token" };
+  if (
+    device.recoverySentAt &&
+    now.getTime() - device.recoverySentAt.getTime() < RECOVERY_RESEND_MS
+  ) {
+    return { ok: false, reason: "too_soon" };
+  }
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const expiresAt = new Date(now.getTime() + RECOVERY_CODE_TTL_MS);
+  await prisma.device.update({
+    where: { deviceId },
+    data: {
+      recoveryCodeHash: hashCode(deviceId, code),
+      recoverySentAt: now,
+      recoveryExpiresAt: expiresAt,
+      recoveryAttempts: 0,
+    },
+  });
+
+  const ticket = await sendPushNotification({
+    pushToken: device.user.pushToken,
+    title: "Restore your account",
+    body: `Your recovery code is ${code}. It expires in 10 minutes.`,
+    data: { type: "device_recovery", code },
+  });
+  if (!ticket || ticket.status !== "ok") {
+    return { ok: false, reason: "send_failed" };
+  }
+  return { ok: true, expiresAt };
+}
+
+/**
+ * Spends a recovery code. Each try counts against MAX_RECOVERY_ATTEMPTS
+ * before the code is compared, so guesses cannot race past the limit; a
+ * matching code is cleared and cannot be used twice.
+ */
+export async function redeemRecoveryCode(
+  deviceId: string,
+  code: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const { count } = await prisma.device.updateMany({
+    where: {
+      deviceId,
+      recoveryExpiresAt: { gt: now },
+      recoveryAttempts: { lt: MAX_RECOVERY_ATTEMPTS },
+    },
+    data: { recoveryAttempts: { increment: 1 } },
+  });
+  if (count === 0) return false;
+
+  const device = await prisma.device.findUnique({
+    where: { deviceId },
+    select: { recoveryCodeHash: true },
+  });
+  const expected = device?.recoveryCodeHash;
+  const actual = hashCode(deviceId, code);
+  if (
+    !expected ||
+    !timingSafeEqual(Buffer.from(expected), Buffer.from(actual))
+  ) {
+    return false;
+  }
+
+  const cleared = await prisma.device.updateMany({
+    where: { deviceId, recoveryCodeHash: expected },
+    data: { recoveryCodeHash: null, recoveryExpiresAt: null },
+  });
+  return cleared.count === 1;
+}
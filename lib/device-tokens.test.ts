@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const findUnique = vi.fn();
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    device: { findUnique: (...args: unknown[]) => findUnique(...args) },
+  },
+}));
+
+import {
+  authenticateDevice,
+  parseDeviceTokenKeys,
+  signDeviceToken,
+  verifyDeviceToken,
+  type DeviceTokenClaims,
+} from "@/lib/device-tokens";
+
+const OLD_SECRET = "o".repeat(32);
+const NEW_SECRET = "n".repeat(32);
+const NOW = new Date("2026-10-01T00:00:00Z");
+const iat = NOW.getTime() / 1000;
+
+const claims: DeviceTokenClaims = {
+  sub: "66f000000000000000000001",
+  did: "device-1234",
+  ver: 1,
+  iat,
+  exp: iat + 3600,
+};
+
+function keys(raw: string) {
+  const parsed = parseDeviceTokenKeys(raw);
+  if (!parsed) throw new Error(`Invalid keys: ${raw}`);
+  return parsed;
+}
+
+describe("parseDeviceTokenKeys", () => {
+  it("signs with the first key and verifies with all of them", () => {
+    const parsed = keys(`k2:${NEW_SECRET},k1:${OLD_SECRET}`);
+    expect(parsed.current).toBe("k2");
+    expect([...parsed.secrets.keys()]).toEqual(["k2", "k1"]);
+  });
+
+  it("rejects short secrets, bad key ids and duplicates", () => {
+    expect(parseDeviceTokenKeys(undefined)).toBeNull();
+    expect(parseDeviceTokenKeys("k1:short")).toBeNull();
+    expect(parseDeviceTokenKeys(`k.1:${OLD_SECRET}`)).toBeNull();
+    expect(parseDeviceTokenKeys(OLD_SECRET)).toBeNull();
+    expect(
+      parseDeviceTokenKeys(`k1:${OLD_SECRET},k1:${NEW_SECRET}`),
+    ).toBeNull();
+  });
+});
+
+describe("verifyDeviceToken", () => {
+  const current = keys(`k1:${OLD_SECRET}`);
+
+  it("accepts a token it signed", () => {
+    const token = signDeviceToken(claims, current);
+    expect(verifyDeviceToken(token, current, { now: NOW })).toEqual({
+      ok: true,
+      claims,
+    });
+  });
+
+  it("rejects claims edited after signing", () => {
+    const [keyId, , signature] = signDeviceToken(claims, current).split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, sub: "66f000000000000000000002" }),
+    ).toString("base64url");
+    expect(
+      verifyDeviceToken(`${keyId}.${forged}.${signature}`, current, {
+        now: NOW,
+      }),
+    ).toEqual({ ok: false, reason: "bad_signature" });
+  });
+
+  it("rejects a token signed with another secret under the same key id", () => {
+    const token = signDeviceToken(claims, keys(`k1:${NEW_SECRET}`));
+    expect(verifyDeviceToken(token, current, { now: NOW })).toEqual({
+      ok: false,
+      reason: "bad_signature",
+    });
+  });
+
+  it("rejects an unknown key id", () => {
+    const token = signDeviceToken(claims, keys(`k9:${OLD_SECRET}`));
+    expect(verifyDeviceToken(token, current, { now: NOW })).toEqual({
+      ok: false,
+      reason: "unknown_key",
+    });
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(verifyDeviceToken("not-a-token", current)).toEqual({
+      ok: false,
+      reason: "malformed",
+    });
+  });
+
+  it("rejects an expired token outside the grace period", () => {
+    const token = signDeviceToken(claims, current);
+    const later = new Date((claims.exp + 120) * 1000);
+    expect(verifyDeviceToken(token, current, { now: later })).toEqual({
+      ok: false,
+      reason: "expired",
+    });
+    expect(
+      verifyDeviceToken(token, current, { now: later, graceSeconds: 60 }),
+    ).toEqual({ ok: false, reason: "expired" });
+  });
+
+  it("accepts an expired token inside the grace period", () => {
+    const token = signDeviceToken(claims, current);
+    const later = new Date((claims.exp + 30) * 1000);
+    expect(
+      verifyDeviceToken(token, current, { now: later, graceSeconds: 60 }).ok,
+    ).toBe(true);
+  });
+
+  it("keeps old tokens valid across a key rotation", () => {
+    const token = signDeviceToken(claims, current);
+    const rotated = keys(`k2:${NEW_SECRET},k1:${OLD_SECRET}`);
+
+    expect(verifyDeviceToken(token, rotated, { now: NOW }).ok).toBe(true);
+    expect(signDeviceToken(claims, rotated).startsWith("k2.")).toBe(true);
+    expect(
+      verifyDeviceToken(token, keys(`k2:${NEW_SECRET}`), { now: NOW }),
+    ).toEqual({ ok: false, reason: "unknown_key" });
+  });
+});
+
+describe("authenticateDevice", () => {
+  const current = keys(`k1:${OLD_SECRET}`);
+
+  function request(token?: string) {
+    return new NextRequest("http://localhost/api/tips/1/action", {
+      method: "POST",
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    });
+  }
+
+  beforeEach(() => {
+    vi.stubEnv("DEVICE_TOKEN_KEYS", `k1:${OLD_SECRET}`);
+    findUnique.mockReset();
+  });
+
+  function freshClaims(ver: number): DeviceTokenClaims {
+    const now = Math.floor(Date.now() / 1000);
+    return { ...claims, ver, iat: now, exp: now + 3600 };
+  }
+
+  it("accepts the device's latest token", async () => {
+    findUnique.mockResolvedValue({ userId: claims.sub, tokenVersion: 2 });
+    const token = signDeviceToken(freshClaims(2), current);
+
+    expect(await authenticateDevice(request(token))).toEqual({
+      ok: true,
+      userId: claims.sub,
+      deviceId: claims.did,
+    });
+  });
+
+  it("rejects a token replayed after the version was bumped", async () => {
+    findUnique.mockResolvedValue({ userId: claims.sub, tokenVersion: 3 });
+    const replayed = signDeviceToken(freshClaims(2), current);
+
+    expect(await authenticateDevice(request(replayed))).toEqual({
+      ok: false,
+      reason: "revoked",
+    });
+  });
+
+  it("rejects a token once the device moved to another user", async () => {
+    findUnique.mockResolvedValue({
+      userId: "66f000000000000000000002",
+      tokenVersion: 2,
+    });
+    const token = signDeviceToken(freshClaims(2), current);
+
+    expect(await authenticateDevice(request(token))).toEqual({
+      ok: false,
+      reason: "revoked",
+    });
+  });
+
+  it("lets refresh through with an expired latest token only", async () => {
+    findUnique.mockResolvedValue({ userId: claims.sub, tokenVersion: 1 });
+    // Expired a year ago; the version still matches
+    const expired = signDeviceToken(
+      { ...freshClaims(1), exp: Math.floor(Date.now() / 1000) - 365 * 86_400 },
+      current,
+    );
+
+    expect(await authenticateDevice(request(expired))).toEqual({
+      ok: false,
+      reason: "expired",
+    });
+    expect(
+      await authenticateDevice(request(expired), { allowExpired: true }),
+    ).toMatchObject({ ok: true });
+  });
+
+  it("requires a token", async () => {
+    expect(await authenticateDevice(request())).toEqual({
+      ok: false,
+      reason: "missing",
+    });
+    expect(findUnique).not.toHaveBeenCalled();
+  });
+});
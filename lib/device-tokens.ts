@@ -0,0 +1,238 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Device tokens are `<key id>.<claims>.<signature>`: base64url JSON claims
+ * signed with HMAC-SHA256 over the key id and claims. Registration issues
+ * one per device, and the public write endpoints take it as a Bearer token.
+ */
+
+export type DeviceTokenClaims = {
+  // Canonical user id
+  sub: string;
+  // Device id the token was issued to
+  did: string;
+  // `Device.tokenVersion` at issue; older versions are superseded
+  ver: number;
+  // Issued at and expiry, in seconds since the epoch
+  iat: number;
+  exp: number;
+};
+
+export type DeviceTokenKeys = {
+  // Key id new tokens are signed with
+  current: string;
+  // Every key still accepted, the current one included
+  secrets: Map<string, string>;
+};
+
+export type DeviceTokenError =
+  | "missing"
+  | "malformed"
+  | "unknown_key"
+  | "bad_signature"
+  | "expired"
+  | "revoked";
+
+export type VerifyResult =
+  | { ok: true; claims: DeviceTokenClaims }
+  | { ok: false; reason: DeviceTokenError };
+
+const KEY_ID = /^[A-Za-z0-9_-]{1,32}$/;
+const MIN_SECRET_LENGTH = 32;
+
+export const DEVICE_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Parses DEVICE_TOKEN_KEYS, e.g. "2026-10:<secret>,2026-04:<secret>". The
+ * first key signs; the rest only verify. To rotate, prepend a new key, and
+ * drop the old one once its tokens have expired or been refreshed. Null
+ * when unset or invalid, which fails every token closed.
+ */
+export function parseDeviceTokenKeys(
+  raw: string | undefined,
+): DeviceTokenKeys | null {
+  if (!raw) return null;
+
+  const secrets = new Map<string, string>();
+  for (const entry of raw.split(",")) {
+    const separator = entry.indexOf(":");
+    const keyId = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (
+      separator < 0 ||
+      !KEY_ID.test(keyId) ||
+      secret.length < MIN_SECRET_LENGTH ||
+      secrets.has(keyId)
+    ) {
+      return null;
+    }
+    secrets.set(keyId, secret);
+  }
+
+  return { current: secrets.keys().next().value!, secrets };
+}
+
+export function loadDeviceTokenKeys(): DeviceTokenKeys | null {
+  const keys = parseDeviceTokenKeys(process.env.DEVICE_TOKEN_KEYS);
+  if (!keys) {
+    console.error("[device-tokens] DEVICE_TOKEN_KEYS is missing or invalid");
+  }
+  return keys;
+}
+
+function sign(secret: string, content: string): string {
+  return createHmac("sha256", secret).update(content).digest("base64url");
+}
+
+export function signDeviceToken(
+  claims: DeviceTokenClaims,
+  keys: DeviceTokenKeys,
+): string {
+  const content = `${keys.current}.${Buffer.from(JSON.stringify(claims)).toString("base64url")}`;
+  return `${content}.${sign(keys.secrets.get(keys.current)!, content)}`;
+}
+
+function isClaims(value: unknown): value is DeviceTokenClaims {
+  const claims = value as Partial<DeviceTokenClaims> | null;
+  return (
+    typeof claims?.sub === "string" &&
+    typeof claims.did === "string" &&
+    Number.isInteger(claims.ver) &&
+    Number.isInteger(claims.iat) &&
+    Number.isInteger(claims.exp)
+  );
+}
+
+/**
+ * Checks a token's signature and expiry. It does not know whether a newer
+ * token replaced this one; `authenticateDevice` checks that against the
+ * device. `graceSeconds` also accepts tokens that expired that recently.
+ */
+export function verifyDeviceToken(
+  token: string,
+  keys: DeviceTokenKeys,
+  options: { now?: Date; graceSeconds?: number } = {},
+): VerifyResult {
+  const parts = token.split(".");
+  if (parts.length !== 3) return { ok: false, reason: "malformed" };
+  const [keyId, payload, signature] = parts;
+
+  const secret = keys.secrets.get(keyId);
+  if (!secret) return { ok: false, reason: "unknown_key" };
+
+  const expected = Buffer.from(sign(secret, `${keyId}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: "bad_signature" };
+  }
+
+  let claims: unknown;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return { ok: false, reason: "malformed" };
+  }
+  if (!isClaims(claims)) return { ok: false, reason: "malformed" };
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (claims.exp + (options.graceSeconds ?? 0) <= now) {
+    return { ok: false, reason: "expired" };
+  }
+
+  return { ok: true, claims };
+}
+
+/**
+ * Issues a token for a registered device, superseding any earlier one.
+ */
+export async function issueDeviceToken(
+  deviceId: string,
+  now: Date = new Date(),
+): Promise<{ token: string; expiresAt: Date }> {
+  const keys = loadDeviceTokenKeys();
+  if (!keys) throw new Error("Device tokens are not configured");
+
+  const device = await prisma.device.update({
+    where: { deviceId },
+    data: { tokenVersion: { increment: 1 } },
+    select: { userId: true, tokenVersion: true },
+  });
+
+  const iat = Math.floor(now.getTime() / 1000);
+  const exp = iat + DEVICE_TOKEN_TTL_SECONDS;
+  return {
+    token: signDeviceToken(
+      { sub: device.userId, did: deviceId, ver: device.tokenVersion, iat, exp },
+      keys,
+    ),
+    expiresAt: new Date(exp * 1000),
+  };
+}
+
+export function readBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get("authorization");
+  return header?.startsWith("Bearer ") ? header.slice(7).trim() : null;
+}
+
+export type DeviceAuth =
+  | { ok: true; userId: string; deviceId: string }
+  | { ok: false; reason: DeviceTokenError };
+
+/**
+ * Authenticates a request by its device token. Beyond the signature, the
+ * token must be the latest one issued to its device and the device must
+ * still belong to the token's user, so a token replayed after a refresh,
+ * or after the device moved to another user, is rejected as `revoked`.
+ * `allowExpired` is for refresh: only the device's latest token passes the
+ * version check, so its age does not matter there.
+ */
+export async function authenticateDevice(
+  request: NextRequest,
+  options: { allowExpired?: boolean } = {},
+): Promise<DeviceAuth> {
+  const token = readBearerToken(request);
+  if (!token) return { ok: false, reason: "missing" };
+
+  const keys = loadDeviceTokenKeys();
+  if (!keys) return { ok: false, reason: "unknown_key" };
+
+  const verified = verifyDeviceToken(token, keys, {
+    graceSeconds: options.allowExpired ? Number.POSITIVE_INFINITY : 0,
+  });
+  if (!verified.ok) return verified;
+  const { claims } = verified;
+
+  const device = await prisma.device.findUnique({
+    where: { deviceId: claims.did },
+    select: { userId: true, tokenVersion: true },
+  });
+  if (
+    !device ||
+    device.tokenVersion !== claims.ver ||
+    device.userId !== claims.sub
+  ) {
+    return { ok: false, reason: "revoked" };
+  }
+
+  return { ok: true, userId: claims.sub, deviceId: claims.did };
+}
+
+export function deviceAuthError(reason: DeviceTokenError) {
+  return {
+    error:
+      reason === "missing" ? "Device token required" : "Invalid device token",
+    reason,
+  };
+}
+
+// A `user_id` in the body is optional; when sent it must name the token's user
+export function tokenMatchesUserId(
+  auth: { userId: string; deviceId: string },
+  userId: unknown,
+): boolean {
+  return (
+    userId === undefined || userId === auth.userId || userId === auth.deviceId
+  );
+}
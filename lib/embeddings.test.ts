@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import { cosineSimilarity, createHashingEmbedder } from "@/lib/embeddings";
+
+const embedder = createHashingEmbedder(64);
+
+describe("createHashingEmbedder", () => {
+  it("is deterministic and names its dimensions", async () => {
+    const text = "Discord stores trillions of messages with ScyllaDB";
+    const [first] = await embedder.embed([text]);
+    const [second] = await createHashingEmbedder(64).embed([text]);
+
+    expect(embedder.id).toBe("hashing/64");
+    expect(first).toHaveLength(64);
+    expect(second).toEqual(first);
+  });
+
+  it("returns unit-length vectors, and zeros for empty text", async () => {
+    const [vector, empty] = await embedder.embed([
+      "Stripe caches idempotency keys in Redis",
+      "",
+    ]);
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    expect(norm).toBeCloseTo(1, 10);
+    expect(empty.every((v) => v === 0)).toBe(true);
+  });
+
+  it("ranks texts sharing words above unrelated ones", async () => {
+    const [query, close, far] = await embedder.embed([
+      "redis cache latency for payment idempotency keys",
+      "cutting payment latency with a redis cache",
+      "kubernetes pod autoscaling on cpu metrics",
+    ]);
+
+    expect(cosineSimilarity(query, query)).toBeCloseTo(1, 10);
+    expect(cosineSimilarity(query, close)).toBeGreaterThan(
+      cosineSimilarity(query, far),
+    );
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("treats vectors of different lengths as unrelated", () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
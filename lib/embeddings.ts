@@ -0,0 +1,173 @@
+import { embedMany } from "ai";
+import { prisma } from "@/lib/prisma";
+import {
+  AI_PROVIDERS,
+  createEmbeddingTarget,
+  type AIProvider,
+} from "@/lib/ai-provider";
+
+export interface Embedder {
+  // Stored on each tip; vectors from different embedders are never compared
+  id: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+// FNV-1a, 32-bit
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Local, deterministic embedder: words and word pairs are hashed into a fixed
+ * number of signed buckets. No network and no key, so it backs tests and
+ * environments without an embedding provider.
+ */
+export function createHashingEmbedder(dimensions = 256): Embedder {
+  return {
+    id: `hashing/${dimensions}`,
+    embed: async (texts) =>
+      texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+        const features = [
+          ...words,
+          ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+        ];
+        for (const feature of features) {
+          const hash = hashToken(feature);
+          vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+        }
+        return normalize(vector);
+      }),
+  };
+}
+
+export function createProviderEmbedder(provider: AIProvider): Embedder {
+  const target = createEmbeddingTarget(provider);
+  return {
+    id: target.modelId,
+    embed: async (texts) => {
+      const { embeddings } = await embedMany({
+        model: target.model,
+        values: texts,
+        maxRetries: 2,
+      });
+      return embeddings.map(normalize);
+    },
+  };
+}
+
+/**
+ * `EMBEDDING_PROVIDER` picks "hashing", "gemini" or "openai". Unset, Gemini
+ * is used when its key is present and the hashing embedder otherwise.
+ */
+export function resolveEmbedder(): Embedder {
+  const configured = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+  if (configured === "hashing") return createHashingEmbedder();
+  if (AI_PROVIDERS.includes(configured as AIProvider)) {
+    return createProviderEmbedder(configured as AIProvider);
+  }
+  if (configured) {
+    console.warn(
+      `[embeddings] Unknown EMBEDDING_PROVIDER "${configured}", using hashing`,
+    );
+    return createHashingEmbedder();
+  }
+  return process.env.GEMINI_API_KEY
+    ? createProviderEmbedder("gemini")
+    : createHashingEmbedder();
+}
+
+export type EmbeddableTip = {
+  tipText: string;
+  tipSummary: string | null;
+  primaryTech: string | null;
+  tags: string[];
+};
+
+export function embeddingText(tip: EmbeddableTip): string {
+  return [tip.tipText, tip.tipSummary, tip.primaryTech, tip.tags.join(", ")]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Both vectors are unit length, so this is their dot product
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+const EMBEDDABLE_SELECT = {
+  id: true,
+  tipText: true,
+  tipSummary: true,
+  primaryTech: true,
+  tags: true,
+} as const;
+
+async function storeEmbeddings(
+  tips: (EmbeddableTip & { id: string })[],
+  embedder: Embedder,
+): Promise<Map<string, number[]>> {
+  if (tips.length === 0) return new Map();
+
+  const vectors = await embedder.embed(tips.map(embeddingText));
+  await Promise.all(
+    tips.map((tip, i) =>
+      prisma.tip.update({
+        where: { id: tip.id },
+        data: { embedding: vectors[i], embeddingModel: embedder.id },
+      }),
+    ),
+  );
+  return new Map(tips.map((tip, i) => [tip.id, vectors[i]]));
+}
+
+/**
+ * Computes and stores the embedding for one tip.
+ */
+export async function embedTip(
+  tipId: string,
+  embedder: Embedder = resolveEmbedder(),
+): Promise<number[] | null> {
+  const tip = await prisma.tip.findUnique({
+    where: { id: tipId },
+    select: EMBEDDABLE_SELECT,
+  });
+  if (!tip) return null;
+  return (await storeEmbeddings([tip], embedder)).get(tipId) ?? null;
+}
+
+/**
+ * Embeds published tips that have no vector from the current embedder,
+ * which covers tips from before embeddings and a change of provider.
+ */
+export async function embedPendingTips(
+  limit: number,
+  embedder: Embedder = resolveEmbedder(),
+): Promise<number> {
+  const tips = await prisma.tip.findMany({
+    where: {
+      status: "published",
+      OR: [
+        { embeddingModel: { isSet: false } },
+        { embeddingModel: null },
+        { embeddingModel: { not: embedder.id } },
+      ],
+    },
+    select: EMBEDDABLE_SELECT,
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return (await storeEmbeddings(tips, embedder)).size;
+}
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const TIP = "66f0000000000000000000aa";
+const OTHER_TIP = "66f0000000000000000000bb";
+
+// Event receipts and daily counters for the mocked prisma
+const receipts = new Set<string>();
+const stats = new Map<string, Record<string, unknown>>();
+const state = { failCounters: false };
+
+vi.mock("@/lib/prisma", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/prisma")>()),
+  prisma: {
+    tip: {
+      findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.filter((id) => id === TIP).map((id) => ({ id })),
+    },
+    eventReceipt: {
+      findMany: async ({
+        where,
+      }: {
+        where: { clientEventId: { in: string[] } };
+      }) =>
+        where.clientEventId.in
+          .filter((id) => receipts.has(id))
+          .map((clientEventId) => ({ clientEventId })),
+      create: async ({ data }: { data: { clientEventId: string } }) =>
+        receipts.add(data.clientEventId),
+      deleteMany: async ({
+        where,
+      }: {
+        where: { clientEventId: { in: string[] } };
+      }) => {
+        where.clientEventId.in.forEach((id) => receipts.delete(id));
+      },
+    },
+    tipDailyStat: {
+      upsert: async ({
+        where,
+        create,
+      }: {
+        where: { tipId_date: { tipId: string; date: string } };
+        create: Record<string, unknown>;
+      }) => {
+        if (state.failCounters) throw new Error("Counters unavailable");
+        const { tipId, date } = where.tipId_date;
+        stats.set(`${tipId}:${date}`, create);
+      },
+    },
+    tipView: { upsert: async () => ({}) },
+  },
+}));
+
+import { ingestEvents } from "@/lib/events";
+
+const NOW = new Date("2026-10-10T12:00:00Z");
+const SENDER = { deviceId: "device-1", userId: "66f000000000000000000001" };
+
+function event(id: string, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    tip_id: TIP,
+    type: "impression",
+    occurred_at: "2026-10-10T09:00:00Z",
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  receipts.clear();
+  stats.clear();
+  state.failCounters = false;
+});
+
+describe("ingestEvents", () => {
+  it("rejects events that are too old, too far ahead or undated", async () => {
+    const result = await ingestEvents(
+      [
+        event("old", { occurred_at: "2026-10-01T00:00:00Z" }),
+        event("ahead", { occurred_at: "2026-10-10T14:00:00Z" }),
+        event("undated", { occurred_at: undefined }),
+        event("ok"),
+      ],
+      SENDER,
+      NOW,
+    );
+
+    expect(result.accepted).toBe(1);
+    expect(result.rejected).toMatchObject([
+      { index: 0, id: "old", reason: "occurred_at is out of range" },
+      { index: 1, id: "ahead", reason: "occurred_at is out of range" },
+      {
+        index: 2,
+        id: "undated",
+        reason: expect.stringMatching(/^occurred_at/),
+      },
+    ]);
+  });
+
+  it("counts repeats in a batch and resent events as duplicates", async () => {
+    const first = await ingestEvents(
+      [
+        event("e1"),
+        event("e1"),
+        event("e2", { type: "dwell", duration_ms: 4000 }),
+      ],
+      SENDER,
+      NOW,
+    );
+    expect(first).toEqual({ accepted: 2, duplicates: 1, rejected: [] });
+    expect(stats.get(`${TIP}:2026-10-10`)).toMatchObject({
+      impressions: 1,
+      dwellEvents: 1,
+      dwellMs: 4000,
+    });
+
+    const resend = await ingestEvents([event("e2"), event("e3")], SENDER, NOW);
+    expect(resend).toEqual({ accepted: 1, duplicates: 1, rejected: [] });
+  });
+
+  it("rejects events for unknown tips", async () => {
+    const result = await ingestEvents(
+      [event("e1", { tip_id: OTHER_TIP })],
+      SENDER,
+      NOW,
+    );
+
+    expect(result.accepted).toBe(0);
+    expect(result.rejected).toEqual([
+      { index: 0, id: "e1", reason: "Unknown tip" },
+    ]);
+  });
+
+  it("releases claimed ids when the counters cannot be written", async () => {
+    state.failCounters = true;
+    await expect(ingestEvents([event("e1")], SENDER, NOW)).rejects.toThrow();
+    expect(receipts.size).toBe(0);
+
+    state.failCounters = false;
+    expect(await ingestEvents([event("e1")], SENDER, NOW)).toMatchObject({
+      accepted: 1,
+      duplicates: 0,
+    });
+  });
+});
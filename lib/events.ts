@@ -0,0 +1,297 @@
+import { z } from "zod";
+import { isPrismaError, prisma } from "@/lib/prisma";
+
+export const EVENT_TYPES = [
+  "impression",
+  "open_detail",
+  "dwell",
+  "code_copy",
+  "deep_link_open",
+] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
+
+// Events older than this are rejected rather than counted on a stale day
+export const EVENT_MAX_AGE_DAYS = 7;
+// How far ahead of the server clock `occurred_at` may run
+const EVENT_MAX_SKEW_MS = 60 * 60 * 1000;
+export const EVENT_BATCH_LIMIT = 100;
+const MAX_DWELL_MS = 60 * 60 * 1000;
+
+const objectId = z.string().regex(/^[a-f0-9]{24}$/i, "Expected an id");
+
+const EventBaseSchema = z.object({
+  id: z.string().min(1).max(100),
+  tip_id: objectId,
+  // Required: an undated event would pass the age check on every resend,
+  // long after its receipt was pruned
+  occurred_at: z.string().datetime({ offset: true }),
+});
+
+export const EventSchema = z.discriminatedUnion("type", [
+  EventBaseSchema.extend({ type: z.literal("impression") }),
+  EventBaseSchema.extend({ type: z.literal("open_detail") }),
+  EventBaseSchema.extend({
+    type: z.literal("dwell"),
+    duration_ms: z.number().int().min(0).max(MAX_DWELL_MS),
+  }),
+  EventBaseSchema.extend({ type: z.literal("code_copy") }),
+  EventBaseSchema.extend({ type: z.literal("deep_link_open") }),
+]);
+
+export type TipEvent = z.infer<typeof EventSchema>;
+
+// Events are validated one by one so a bad entry does not sink its batch
+export const EventBatchSchema = z.object({
+  // A user or device id; checked against the device token
+  user_id: z.string().optional(),
+  events: z.array(z.unknown()).min(1).max(EVENT_BATCH_LIMIT),
+});
+
+export type RejectedEvent = {
+  index: number;
+  id?: string;
+  reason: string;
+};
+
+export type IngestResult = {
+  accepted: number;
+  duplicates: number;
+  rejected: RejectedEvent[];
+};
+
+type DailyCounters = {
+  impressions: number;
+  detailOpens: number;
+  dwellEvents: number;
+  dwellMs: number;
+  codeCopies: number;
+  deepLinkOpens: number;
+};
+
+function emptyCounters(): DailyCounters {
+  return {
+    impressions: 0,
+    detailOpens: 0,
+    dwellEvents: 0,
+    dwellMs: 0,
+    codeCopies: 0,
+    deepLinkOpens: 0,
+  };
+}
+
+function addEvent(counters: DailyCounters, event: TipEvent): void {
+  switch (event.type) {
+    case "impression":
+      counters.impressions += 1;
+      break;
+    case "open_detail":
+      counters.detailOpens += 1;
+      break;
+    case "dwell":
+      counters.dwellEvents += 1;
+      counters.dwellMs += event.duration_ms;
+      break;
+    case "code_copy":
+      counters.codeCopies += 1;
+      break;
+    case "deep_link_open":
+      counters.deepLinkOpens += 1;
+      break;
+  }
+}
+
+/**
+ * Sums events into counters per tip and UTC day, keyed "tipId:YYYY-MM-DD".
+ */
+export function aggregateEvents(
+  events: TipEvent[],
+): Map<string, DailyCounters> {
+  const buckets = new Map<string, DailyCounters>();
+  for (const event of events) {
+    const date = new Date(event.occurred_at).toISOString().slice(0, 10);
+    const key = `${event.tip_id}:${date}`;
+    const counters = buckets.get(key) ?? emptyCounters();
+    addEvent(counters, event);
+    buckets.set(key, counters);
+  }
+  return buckets;
+}
+
+// Concurrent batches can race to create the same row; the loser retries
+async function upsertWithRetry<T>(upsert: () => Promise<T>): Promise<T> {
+  try {
+    return await upsert();
+  } catch (error) {
+    if (!isPrismaError(error, "P2002")) throw error;
+    return upsert();
+  }
+}
+
+/**
+ * Claims each of a device's event ids once. Returns the ids that were new;
+ * ids already claimed, by an earlier batch or a concurrent one, are dropped.
+ */
+async function claimEventIds(
+  deviceId: string,
+  ids: string[],
+): Promise<Set<string>> {
+  const existing = await prisma.eventReceipt.findMany({
+    where: { deviceId, clientEventId: { in: ids } },
+    select: { clientEventId: true },
+  });
+  const seen = new Set(existing.map((r) => r.clientEventId));
+
+  const claimed = await Promise.all(
+    ids
+      .filter((id) => !seen.has(id))
+      .map((clientEventId) =>
+        prisma.eventReceipt
+          .create({ data: { deviceId, clientEventId } })
+          .then(() => clientEventId)
+          .catch((error) => {
+            if (isPrismaError(error, "P2002")) return null;
+            throw error;
+          }),
+      ),
+  );
+  return new Set(claimed.filter((id): id is string => id !== null));
+}
+
+async function recordCounters(events: TipEvent[]): Promise<void> {
+  await Promise.all(
+    [...aggregateEvents(events)].map(([key, counters]) => {
+      const [tipId, date] = key.split(":");
+      return upsertWithRetry(() =>
+        prisma.tipDailyStat.upsert({
+          where: { tipId_date: { tipId, date } },
+          create: { tipId, date, ...counters },
+          update: {
+            impressions: { increment: counters.impressions },
+            detailOpens: { increment: counters.detailOpens },
+            dwellEvents: { increment: counters.dwellEvents },
+            dwellMs: { increment: counters.dwellMs },
+            codeCopies: { increment: counters.codeCopies },
+            deepLinkOpens: { increment: counters.deepLinkOpens },
+          },
+        }),
+      );
+    }),
+  );
+}
+
+/**
+ * Validates, deduplicates and counts a batch of client events from one
+ * authenticated device. Counters land in `TipDailyStat`, and every event
+ * also marks its tip as seen by the device's user in `TipView`.
+ */
+export async function ingestEvents(
+  rawEvents: unknown[],
+  sender: { deviceId: string; userId: string },
+  now: Date = new Date(),
+): Promise<IngestResult> {
+  const rejected: RejectedEvent[] = [];
+  const valid: { index: number; event: TipEvent }[] = [];
+  const oldest = now.getTime() - EVENT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+
+  rawEvents.forEach((raw, index) => {
+    const parsed = EventSchema.safeParse(raw);
+    if (!parsed.success) {
+      const id = (raw as { id?: unknown } | null)?.id;
+      rejected.push({
+        index,
+        id: typeof id === "string" ? id : undefined,
+        reason: parsed.error.issues
+          .map(
+            (issue) => `${issue.path.join(".") || "event"}: ${issue.message}`,
+          )
+          .join("; "),
+      });
+      return;
+    }
+    const occurredAt = new Date(parsed.data.occurred_at).getTime();
+    if (occurredAt < oldest || occurredAt > now.getTime() + EVENT_MAX_SKEW_MS) {
+      rejected.push({
+        index,
+        id: parsed.data.id,
+        reason: "occurred_at is out of range",
+      });
+      return;
+    }
+    valid.push({ index, event: parsed.data });
+  });
+
+  const tipIds = [...new Set(valid.map(({ event }) => event.tip_id))];
+  const tips = await prisma.tip.findMany({
+    where: { id: { in: tipIds }, status: "published" },
+    select: { id: true },
+  });
+  const knownTips = new Set(tips.map((tip) => tip.id));
+
+  // Repeats inside one batch count as duplicates too
+  const firstById = new Map<string, TipEvent>();
+  let duplicates = 0;
+  for (const { index, event } of valid) {
+    if (!knownTips.has(event.tip_id)) {
+      rejected.push({ index, id: event.id, reason: "Unknown tip" });
+    } else if (firstById.has(event.id)) {
+      duplicates += 1;
+    } else {
+      firstById.set(event.id, event);
+    }
+  }
+
+  const claimed = await claimEventIds(sender.deviceId, [...firstById.keys()]);
+  duplicates += firstById.size - claimed.size;
+  const events = [...claimed].map((id) => firstById.get(id)!);
+
+  try {
+    await recordCounters(events);
+  } catch (error) {
+    // Release the ids so a retry is counted; partial counters may repeat
+    await prisma.eventReceipt.deleteMany({
+      where: { deviceId: sender.deviceId, clientEventId: { in: [...claimed] } },
+    });
+    throw error;
+  }
+
+  const { userId } = sender;
+  const seenTipIds = [...new Set(events.map((event) => event.tip_id))];
+  await Promise.all(
+    seenTipIds.map((tipId) =>
+      upsertWithRetry(() =>
+        prisma.tipView.upsert({
+          where: { userId_tipId: { userId, tipId } },
+          create: { userId, tipId, firstSeenAt: now, lastSeenAt: now },
+          update: { lastSeenAt: now },
+        }),
+      ),
+    ),
+  );
+
+  return {
+    accepted: events.length,
+    duplicates,
+    rejected: rejected.sort((a, b) => a.index - b.index),
+  };
+}
+
+/**
+ * Receipts can go once no resend of their event could still be accepted:
+ * past the age limit plus the clock skew allowed ahead. Returns how many
+ * were (or, with `dryRun`, would be) deleted.
+ */
+export async function pruneEventReceipts(
+  options: { dryRun?: boolean; now?: Date } = {},
+): Promise<number> {
+  const cutoff = new Date(
+    (options.now ?? new Date()).getTime() -
+      EVENT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000 -
+      EVENT_MAX_SKEW_MS,
+  );
+  const where = { createdAt: { lt: cutoff } };
+
+  if (options.dryRun) return prisma.eventReceipt.count({ where });
+  const { count } = await prisma.eventReceipt.deleteMany({ where });
+  return count;
+}
@@ -0,0 +1,96 @@
+import { prisma } from "@/lib/prisma";
+import type { GeneratedTip, TipExclusions } from "@/lib/ai";
+
+// Shared with the dedup tech check, so the prompt and the gate agree
+export const EXCLUSION_WINDOW_DAYS = 14;
+const RECENT_JOB_LIMIT = 10;
+
+/**
+ * Shape written to `Job.summary.used` so later batches can exclude what this
+ * one produced.
+ */
+export function usedValuesOf(tips: GeneratedTip[]): TipExclusions {
+  return {
+    techs: tips.map((tip) => tip.primary_tech),
+    companies: tips.map((tip) => tip.company),
+    headlinePatterns: tips.map((tip) => tip.headline_pattern),
+  };
+}
+
+function readUsedValues(summary: unknown): Partial<TipExclusions> {
+  if (!summary || typeof summary !== "object") return {};
+  const used = (summary as { used?: unknown }).used;
+  if (!used || typeof used !== "object") return {};
+
+  const pick = (key: keyof TipExclusions) => {
+    const value = (used as Record<string, unknown>)[key];
+    return Array.isArray(value)
+      ? value.filter((v): v is string => typeof v === "string")
+      : [];
+  };
+
+  return {
+    techs: pick("techs"),
+    companies: pick("companies"),
+    headlinePatterns: pick("headlinePatterns"),
+  };
+}
+
+// Case-insensitive dedupe that keeps the first (most recent) spelling
+function uniqueValues(values: Array<string | null | undefined>): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values) {
+    const trimmed = value?.trim();
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    result.push(trimmed);
+  }
+  return result;
+}
+
+/**
+ * Collects primary techs, companies and headline patterns used recently,
+ * most recent first, from stored tips and the summaries of recent jobs.
+ */
+export async function loadRecentExclusions(
+  windowDays: number = EXCLUSION_WINDOW_DAYS,
+): Promise<TipExclusions & { windowDays: number }> {
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+  const [tips, jobs] = await Promise.all([
+    prisma.tip.findMany({
+      where: { createdAt: { gte: since }, status: { not: "failed" } },
+      orderBy: { createdAt: "desc" },
+      select: { primaryTech: true, company: true, headlinePattern: true },
+    }),
+    prisma.job.findMany({
+      where: {
+        createdAt: { gte: since },
+        status: "completed",
+        OR: [{ kind: "generation" }, { kind: { isSet: false } }],
+      },
+      orderBy: { createdAt: "desc" },
+      take: RECENT_JOB_LIMIT,
+      select: { summary: true },
+    }),
+  ]);
+
+  const fromJobs = jobs.map((job) => readUsedValues(job.summary));
+
+  return {
+    techs: uniqueValues([
+      ...fromJobs.flatMap((used) => used.techs ?? []),
+      ...tips.map((tip) => tip.primaryTech),
+    ]),
+    companies: uniqueValues([
+      ...fromJobs.flatMap((used) => used.companies ?? []),
+      ...tips.map((tip) => tip.company),
+    ]),
+    headlinePatterns: uniqueValues([
+      ...fromJobs.flatMap((used) => used.headlinePatterns ?? []),
+      ...tips.map((tip) => tip.headlinePattern),
+    ]),
+    windowDays,
+  };
+}
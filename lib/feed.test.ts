@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import {
+  decodeFeedCursor,
+  encodeFeedCursor,
+  isServed,
+  withServed,
+} from "@/lib/feed";
+
+describe("feed cursors", () => {
+  const ids = Array.from(
+    { length: 60 },
+    (_, i) => `66f0000000000000000000${i.toString(16).padStart(2, "0")}`,
+  );
+
+  it("round-trips the clock and the served tips", () => {
+    const first = withServed({ at: 1_760_000_000_000, served: new Set() }, [
+      ids[0],
+      ids[1],
+    ]);
+    const second = withServed(decodeFeedCursor(encodeFeedCursor(first))!, [
+      ids[2],
+    ]);
+    const decoded = decodeFeedCursor(encodeFeedCursor(second))!;
+
+    expect(decoded.at).toBe(1_760_000_000_000);
+    expect(ids.filter((id) => isServed(decoded, id))).toEqual(ids.slice(0, 3));
+  });
+
+  it("stays short as pages accumulate", () => {
+    const cursor = withServed({ at: Date.now(), served: new Set() }, ids);
+    expect(encodeFeedCursor(cursor).length).toBeLessThan(500);
+  });
+
+  it("rejects tampered cursors", () => {
+    expect(decodeFeedCursor("not-a-cursor")).toBeNull();
+    expect(
+      decodeFeedCursor(
+        Buffer.from(JSON.stringify({ at: 1, served: "abc" })).toString(
+          "base64url",
+        ),
+      ),
+    ).toBeNull();
+    expect(
+      decodeFeedCursor(
+        Buffer.from(JSON.stringify({ at: 1, offset: 20 })).toString(
+          "base64url",
+        ),
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+
+const FeedWeightsSchema = z.object({
+  recency: z.number().min(0),
+  popularity: z.number().min(0),
+  affinity: z.number().min(0),
+  // Subtracted once for tips the user has already seen
+  seenPenalty: z.number().min(0),
+  // Age at which the recency signal halves
+  halfLifeHours: z.number().positive(),
+});
+
+export type FeedWeights = z.infer<typeof FeedWeightsSchema>;
+
+export const DEFAULT_FEED_WEIGHTS: FeedWeights = {
+  recency: 1,
+  popularity: 0.5,
+  affinity: 1,
+  seenPenalty: 2,
+  halfLifeHours: 72,
+};
+
+// e.g. {"affinity": 2, "halfLifeHours": 24}; keys left out keep their default
+export function loadFeedWeights(): FeedWeights {
+  const raw = process.env.FEED_WEIGHTS;
+  if (!raw) return DEFAULT_FEED_WEIGHTS;
+
+  try {
+    return {
+      ...DEFAULT_FEED_WEIGHTS,
+      ...FeedWeightsSchema.partial().parse(JSON.parse(raw)),
+    };
+  } catch (error) {
+    console.error("[feed] Invalid FEED_WEIGHTS:", error);
+    return DEFAULT_FEED_WEIGHTS;
+  }
+}
+
+export type UserSignals = {
+  // Category → share of the user's positive actions in it, 0 to 1
+  categoryAffinity: Map<string, number>;
+  seenTipIds: Set<string>;
+  // Tips the user hid; left out of the feed entirely
+  hiddenTipIds: Set<string>;
+};
+
+/**
+ * What the ranking knows about a user: the categories of the tips they
+ * shared, liked or saved, the tips they hid, and which tips they have seen,
+ * from views recorded by POST /api/events or from acting on them. Unknown
+ * users get empty signals and a feed ranked on recency and popularity alone.
+ */
+export async function loadUserSignals(userId: string): Promise<UserSignals> {
+  const [actions, views] = await Promise.all([
+    prisma.action.findMany({
+      where: { userId },
+      select: {
+        tipId: true,
+        actionType: true,
+        tip: { select: { category: true } },
+      },
+    }),
+    prisma.tipView.findMany({ where: { userId }, select: { tipId: true } }),
+  ]);
+
+  const positive = actions.filter((action) => action.actionType !== "hide");
+  const counts = new Map<string, number>();
+  for (const action of positive) {
+    const category = action.tip.category;
+    counts.set(category, (counts.get(category) ?? 0) + 1);
+  }
+
+  return {
+    categoryAffinity: new Map(
+      [...counts].map(([category, count]) => [
+        category,
+        count / positive.length,
+      ]),
+    ),
+    seenTipIds: new Set([...actions, ...views].map((seen) => seen.tipId)),
+    hiddenTipIds: new Set(
+      actions
+        .filter((action) => action.actionType === "hide")
+        .map((action) => action.tipId),
+    ),
+  };
+}
+
+export type RankableTip = {
+  id: string;
+  category: string;
+  sharesCount: number;
+  createdAt: Date;
+};
+
+export const FEED_COMPONENTS = [
+  "recency",
+  "popularity",
+  "affinity",
+  "seen",
+] as const;
+
+export type FeedComponent = (typeof FEED_COMPONENTS)[number];
+
+export type ComponentScore = {
+  // Raw signal, 0 to 1
+  value: number;
+  weight: number;
+  // value × weight; negative for the seen penalty
+  contribution: number;
+};
+
+export type FeedRanking = {
+  score: number;
+  components: Record<FeedComponent, ComponentScore>;
+  reasons: string[];
+};
+
+function component(
+  value: number,
+  weight: number,
+  sign: 1 | -1 = 1,
+): ComponentScore {
+  return { value, weight, contribution: sign * value * weight };
+}
+
+function formatAge(hours: number): string {
+  if (hours < 1) return "less than an hour ago";
+  if (hours < 2) return "1 hour ago";
+  if (hours < 48) return `${Math.floor(hours)} hours ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+}
+
+/**
+ * Scores one tip for one user. Each signal is scaled to 0–1 before its
+ * weight applies: recency decays by half every `halfLifeHours`, popularity
+ * is log-scaled against the most shared candidate, and affinity is the
+ * user's share of activity in the tip's category.
+ */
+export function scoreTip(
+  tip: RankableTip,
+  signals: UserSignals,
+  weights: FeedWeights,
+  context: { now: Date; maxShares: number },
+): FeedRanking {
+  const ageHours = Math.max(
+    0,
+    (context.now.getTime() - tip.createdAt.getTime()) / 3_600_000,
+  );
+  const recency = Math.pow(0.5, ageHours / weights.halfLifeHours);
+  const popularity =
+    context.maxShares > 0
+      ? Math.log1p(tip.sharesCount) / Math.log1p(context.maxShares)
+      : 0;
+  const affinity = signals.categoryAffinity.get(tip.category) ?? 0;
+  const seen = signals.seenTipIds.has(tip.id) ? 1 : 0;
+
+  const components = {
+    recency: component(recency, weights.recency),
+    popularity: component(popularity, weights.popularity),
+    affinity: component(affinity, weights.affinity),
+    seen: component(seen, weights.seenPenalty, -1),
+  };
+
+  const reasons = [`Published ${formatAge(ageHours)}`];
+  if (tip.sharesCount > 0) {
+    reasons.push(
+      `Shared ${tip.sharesCount} time${tip.sharesCount === 1 ? "" : "s"}`,
+    );
+  }
+  if (affinity > 0) {
+    reasons.push(
+      `${Math.round(affinity * 100)}% of your activity is in ${tip.category}`,
+    );
+  }
+  if (seen) reasons.push("You have already seen this tip");
+
+  return {
+    score: Object.values(components).reduce(
+      (sum, c) => sum + c.contribution,
+      0,
+    ),
+    components,
+    reasons,
+  };
+}
+
+export type RankedTip<T extends RankableTip> = {
+  tip: T;
+  rank: number;
+  ranking: FeedRanking;
+};
+
+// Highest score first; ties go to the newer tip, then the id
+export function rankTips<T extends RankableTip>(
+  tips: T[],
+  signals: UserSignals,
+  weights: FeedWeights,
+  now: Date = new Date(),
+): RankedTip<T>[] {
+  const maxShares = Math.max(0, ...tips.map((tip) => tip.sharesCount));
+  return tips
+    .map((tip) => ({
+      tip,
+      ranking: scoreTip(tip, signals, weights, { now, maxShares }),
+    }))
+    .sort(
+      (a, b) =>
+        b.ranking.score - a.ranking.score ||
+        b.tip.createdAt.getTime() - a.tip.createdAt.getTime() ||
+        (a.tip.id < b.tip.id ? -1 : 1),
+    )
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+// FNV-1a, 32-bit; cursors carry these instead of full tip ids
+function servedKey(tipId: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < tipId.length; i++) {
+    hash ^= tipId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export type FeedCursor = {
+  // Clock the first page was ranked with
+  at: number;
+  // Keys of the tips already served
+  served: Set<number>;
+};
+
+export function isServed(cursor: FeedCursor, tipId: string): boolean {
+  return cursor.served.has(servedKey(tipId));
+}
+
+export function withServed(cursor: FeedCursor, tipIds: string[]): FeedCursor {
+  return {
+    at: cursor.at,
+    served: new Set([...cursor.served, ...tipIds.map(servedKey)]),
+  };
+}
+
+/**
+ * Each page is ranked afresh, minus the tips already served. Shares, views
+ * and hides move scores between pages, so an offset into the new ranking
+ * would repeat or skip tips; excluding what was served cannot. The clock is
+ * pinned too, so recency decay does not reshuffle the feed mid-session.
+ * Served tips travel as 4-byte keys to keep the cursor short.
+ */
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  const served = Buffer.alloc(cursor.served.size * 4);
+  [...cursor.served].forEach((key, i) => served.writeUInt32BE(key, i * 4));
+  return Buffer.from(
+    JSON.stringify({ at: cursor.at, served: served.toString("base64url") }),
+  ).toString("base64url");
+}
+
+export function decodeFeedCursor(cursor: string): FeedCursor | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (!Number.isInteger(value?.at) || typeof value.served !== "string") {
+      return null;
+    }
+    const served = Buffer.from(value.served, "base64url");
+    if (served.length % 4 !== 0) return null;
+
+    const keys = new Set<number>();
+    for (let i = 0; i < served.length; i += 4) keys.add(served.readUInt32BE(i));
+    return { at: value.at, served: keys };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Prisma } from "@prisma/client";
+
+type User = {
+  id: string;
+  email: string | null;
+  pushToken: string | null;
+  deviceType: string | null;
+  createdAt: Date;
+};
+type Action = { id: string; userId: string; tipId: string; actionType: string };
+
+// A small in-memory store behind the mocked prisma
+const db = {
+  users: new Map<string, User>(),
+  devices: new Map<string, { deviceId: string; userId: string }>(),
+  actions: [] as Action[],
+  claims: new Map<string, string>(),
+  tipUpdates: [] as { id: string; data: unknown }[],
+};
+
+function uniqueViolation() {
+  return new Prisma.PrismaClientKnownRequestError("Unique constraint", {
+    code: "P2002",
+    clientVersion: "test",
+  });
+}
+
+function claimEmail(email: string, userId: string) {
+  if (db.claims.has(email)) throw uniqueViolation();
+  db.claims.set(email, userId);
+}
+
+type ActionKey = {
+  userId_tipId_actionType: Omit<Action, "id">;
+};
+
+// Hoisted for the mock factory; the store is only touched once tests run
+const client = vi.hoisted(() => {
+  const client = {
+    $transaction: async (run: unknown) =>
+      typeof run === "function" ? run(client) : Promise.all(run as unknown[]),
+    user: {
+      findMany: async ({
+        where,
+      }: {
+        where: { OR?: { email: { endsWith: string } }[] };
+      }) =>
+        [...db.users.values()]
+          .filter((user) =>
+            where.OR
+              ? where.OR.some((c) => user.email?.endsWith(c.email.endsWith))
+              : ![...db.claims.values()].includes(user.id),
+          )
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      findUniqueOrThrow: async ({ where }: { where: { id: string } }) =>
+        db.users.get(where.id)!,
+      update: async ({
+        where,
+        data,
+      }: {
+        where: { id: string };
+        data: Partial<User>;
+      }) => Object.assign(db.users.get(where.id)!, data),
+      delete: async ({ where }: { where: { id: string } }) =>
+        db.users.delete(where.id),
+      create: async ({
+        data,
+      }: {
+        data: {
+          email?: string;
+          devices: { create: { deviceId: string } };
+          emailClaim?: { create: { email: string } };
+        };
+      }) => {
+        const id = `user-${db.users.size + 1}`;
+        if (data.emailClaim) claimEmail(data.emailClaim.create.email, id);
+        addUser({ id, email: data.email ?? null });
+        db.devices.set(data.devices.create.deviceId, {
+          deviceId: data.devices.create.deviceId,
+          userId: id,
+        });
+        return { id };
+      },
+    },
+    userEmail: {
+      findUnique: async ({ where }: { where: { email: string } }) =>
+        db.claims.has(where.email)
+          ? { userId: db.claims.get(where.email)! }
+          : null,
+      create: async ({ data }: { data: { email: string; userId: string } }) =>
+        claimEmail(data.email, data.userId),
+      upsert: async ({
+        create,
+      }: {
+        create: { email: string; userId: string };
+      }) => {
+        for (const [email, userId] of db.claims) {
+          if (userId === create.userId) db.claims.delete(email);
+        }
+        claimEmail(create.email, create.userId);
+      },
+    },
+    device: {
+      findUnique: async ({ where }: { where: { deviceId: string } }) => {
+        const device = db.devices.get(where.deviceId);
+        return device && { ...device, user: db.users.get(device.userId)! };
+      },
+      create: async ({
+        data,
+      }: {
+        data: { deviceId: string; userId: string };
+      }) => db.devices.set(data.deviceId, data),
+      update: async () => ({}),
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { userId: string };
+        data: { userId: string };
+      }) => {
+        for (const device of db.devices.values()) {
+          if (device.userId === where.userId) device.userId = data.userId;
+        }
+      },
+    },
+    action: {
+      findMany: async ({ where }: { where: { userId: string } }) =>
+        db.actions.filter((action) => action.userId === where.userId),
+      findUnique: async ({ where }: { where: ActionKey }) => {
+        const key = where.userId_tipId_actionType;
+        return (
+          db.actions.find(
+            (a) =>
+              a.userId === key.userId &&
+              a.tipId === key.tipId &&
+              a.actionType === key.actionType,
+          ) ?? null
+        );
+      },
+      update: async ({
+        where,
+        data,
+      }: {
+        where: { id: string };
+        data: { userId: string };
+      }) =>
+        Object.assign(
+          db.actions.find((a) => a.id === where.id)!,
+          data,
+        ),
+      delete: async ({ where }: { where: { id: string } }) => {
+        db.actions = db.actions.filter((a) => a.id !== where.id);
+      },
+    },
+    tip: {
+      update: async (update: { where: { id: string }; data: unknown }) =>
+        db.tipUpdates.push({ id: update.where.id, data: update.data }),
+    },
+    tipView: { findMany: async () => [] },
+  };
+  return client;
+});
+
+vi.mock("@/lib/prisma", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/prisma")>()),
+  prisma: client,
+}));
+
+import {
+  EmailTakenError,
+  mergeLegacyDeviceUsers,
+  registerDevice,
+} from "@/lib/identity";
+
+function addUser(user: Partial<User> & { id: string }) {
+  db.users.set(user.id, {
+    email: null,
+    pushToken: null,
+    deviceType: null,
+    createdAt: new Date(2026, 0, db.users.size + 1),
+    ...user,
+  });
+}
+
+beforeEach(() => {
+  db.users.clear();
+  db.devices.clear();
+  db.actions = [];
+  db.claims.clear();
+  db.tipUpdates = [];
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("mergeLegacyDeviceUsers", () => {
+  it("merges a device's two users and moves their actions", async () => {
+    addUser({
+      id: "push-user",
+      email: "install-1@device.tldev",
+      pushToken: "ExponentPushToken[abc]",
+    });
+    addUser({ id: "install-1", email: "install-1@anonymous.local" });
+    db.actions = [
+      { id: "a1", userId: "push-user", tipId: "t1", actionType: "like" },
+      { id: "a2", userId: "install-1", tipId: "t1", actionType: "like" },
+      { id: "a3", userId: "install-1", tipId: "t2", actionType: "bookmark" },
+    ];
+
+    const report = await mergeLegacyDeviceUsers();
+
+    expect(report).toMatchObject({
+      groups: 1,
+      devices: 1,
+      mergedUsers: 1,
+      movedActions: 1,
+      droppedActions: 1,
+    });
+    expect(db.actions.map((a) => [a.id, a.userId])).toEqual([
+      ["a1", "push-user"],
+      ["a3", "push-user"],
+    ]);
+    expect(db.tipUpdates).toEqual([
+      { id: "t1", data: { likesCount: { increment: -1 } } },
+    ]);
+    expect(db.devices.get("install-1")?.userId).toBe("push-user");
+    expect(db.users.has("install-1")).toBe(false);
+    expect(db.users.get("push-user")?.email).toBeNull();
+  });
+
+  it("claims real emails for the oldest user first", async () => {
+    addUser({ id: "older", email: "Dev@Example.com" });
+    addUser({ id: "newer", email: "dev@example.com" });
+
+    const report = await mergeLegacyDeviceUsers();
+
+    expect(report).toMatchObject({ claimedEmails: 1, emailConflicts: 1 });
+    expect(db.claims.get("dev@example.com")).toBe("older");
+  });
+});
+
+describe("registerDevice", () => {
+  it("claims the email for a new user", async () => {
+    const result = await registerDevice({
+      deviceId: "install-2",
+      email: " Dev@Example.com ",
+    });
+
+    expect(result).toMatchObject({ created: true });
+    expect(db.claims.get("dev@example.com")).toBe(result.userId);
+  });
+
+  it("never attaches an email another user has claimed", async () => {
+    await registerDevice({ deviceId: "install-2", email: "dev@example.com" });
+    await registerDevice({ deviceId: "install-3" });
+
+    await expect(
+      registerDevice({ deviceId: "install-4", email: "dev@example.com" }),
+    ).rejects.toBeInstanceOf(EmailTakenError);
+    await expect(
+      registerDevice({ deviceId: "install-3", email: "DEV@example.com" }),
+    ).rejects.toBeInstanceOf(EmailTakenError);
+    expect(db.devices.has("install-4")).toBe(false);
+  });
+});
@@ -0,0 +1,321 @@
+import { z } from "zod";
+import { isPrismaError, prisma } from "@/lib/prisma";
+import { adjustCounter } from "@/lib/actions";
+
+// Generated by the app on install, e.g. a UUID
+export const DeviceIdSchema = z
+  .string()
+  .trim()
+  .min(8)
+  .max(128)
+  .regex(/^[A-Za-z0-9._:-]+$/, "Unsupported characters in device id");
+
+export class EmailTakenError extends Error {
+  constructor(email: string) {
+    super(`${email} is already registered to another user`);
+    this.name = "EmailTakenError";
+  }
+}
+
+export type DeviceRegistration = {
+  deviceId: string;
+  email?: string | null;
+  deviceType?: string | null;
+  pushToken?: string | null;
+};
+
+async function assertEmailFree(email: string, userId?: string) {
+  const claim = await prisma.userEmail.findUnique({
+    where: { email },
+    select: { userId: true },
+  });
+  if (claim && claim.userId !== userId) throw new EmailTakenError(email);
+}
+
+/**
+ * Returns the canonical user for a device, creating both on first sight.
+ * An email is attached only when no other user has it: an unverified
+ * address never moves a device onto an existing account. The `UserEmail`
+ * claim is written with the email, so a concurrent registration of the same
+ * address fails on its unique index rather than slipping past the check.
+ */
+export async function registerDevice(
+  input: DeviceRegistration,
+): Promise<{ userId: string; deviceId: string; created: boolean }> {
+  const email = input.email?.trim().toLowerCase() || undefined;
+  const profile = {
+    ...(input.pushToken && { pushToken: input.pushToken }),
+    ...(input.deviceType && { deviceType: input.deviceType }),
+  };
+
+  const device = await prisma.device.findUnique({
+    where: { deviceId: input.deviceId },
+    select: { userId: true, user: { select: { email: true } } },
+  });
+
+  if (device) {
+    const emailChanged = !!email && email !== device.user.email;
+    if (emailChanged) await assertEmailFree(email, device.userId);
+
+    const touch = prisma.device.update({
+      where: { deviceId: input.deviceId },
+      data: {
+        lastSeenAt: new Date(),
+        user: { update: { ...profile, ...(emailChanged && { email }) } },
+      },
+    });
+    if (!emailChanged) {
+      await touch;
+    } else {
+      try {
+        await prisma.$transaction([
+          prisma.userEmail.upsert({
+            where: { userId: device.userId },
+            create: { email, userId: device.userId },
+            update: { email },
+          }),
+          touch,
+        ]);
+      } catch (error) {
+        if (isPrismaError(error, "P2002")) throw new EmailTakenError(email);
+        throw error;
+      }
+    }
+    return { userId: device.userId, deviceId: input.deviceId, created: false };
+  }
+
+  if (email) await assertEmailFree(email);
+
+  try {
+    const user = await prisma.user.create({
+      data: {
+        email,
+        ...profile,
+        devices: { create: { deviceId: input.deviceId } },
+        ...(email && { emailClaim: { create: { email } } }),
+      },
+      select: { id: true },
+    });
+    return { userId: user.id, deviceId: input.deviceId, created: true };
+  } catch (error) {
+    // A concurrent first registration of the same device or email won; the
+    // retry finds the device or throws EmailTakenError
+    if (!isPrismaError(error, "P2002")) throw error;
+    return registerDevice(input);
+  }
+}
+
+// Fake emails older endpoints invented from the client's id
+const LEGACY_EMAIL_DOMAINS = ["@device.tldev", "@anonymous.local"];
+
+export type MergeReport = {
+  devices: number;
+  mergedUsers: number;
+  movedActions: number;
+  droppedActions: number;
+  movedViews: number;
+  claimedEmails: number;
+  // Users whose email another, older user had already claimed
+  emailConflicts: number;
+};
+
+/**
+ * Moves one user's actions, views and devices onto another and deletes it.
+ * Actions the target already has are dropped, with the tip counter brought
+ * down to match, so merging never double counts. It all runs in one
+ * transaction: a crash leaves the user either untouched or fully merged,
+ * never with its actions split between the two.
+ */
+async function mergeUserInto(
+  fromId: string,
+  toId: string,
+  report: MergeReport,
+): Promise<void> {
+  const merged = await prisma.$transaction(
+    async (tx) => {
+      const counts = { movedActions: 0, droppedActions: 0, movedViews: 0 };
+
+      const actions = await tx.action.findMany({ where: { userId: fromId } });
+      for (const action of actions) {
+        const duplicate = await tx.action.findUnique({
+          where: {
+            userId_tipId_actionType: {
+              userId: toId,
+              tipId: action.tipId,
+              actionType: action.actionType,
+            },
+          },
+        });
+        if (duplicate) {
+          await tx.action.delete({ where: { id: action.id } });
+          await tx.tip.update({
+            where: { id: action.tipId },
+            data: adjustCounter(action.actionType, -1),
+          });
+          counts.droppedActions += 1;
+        } else {
+          await tx.action.update({
+            where: { id: action.id },
+            data: { userId: toId },
+          });
+          counts.movedActions += 1;
+        }
+      }
+
+      const views = await tx.tipView.findMany({ where: { userId: fromId } });
+      for (const view of views) {
+        const existing = await tx.tipView.findUnique({
+          where: { userId_tipId: { userId: toId, tipId: view.tipId } },
+        });
+        if (existing) {
+          await tx.tipView.update({
+            where: { id: existing.id },
+            data: {
+              firstSeenAt:
+                view.firstSeenAt < existing.firstSeenAt
+                  ? view.firstSeenAt
+                  : existing.firstSeenAt,
+              lastSeenAt:
+                view.lastSeenAt > existing.lastSeenAt
+                  ? view.lastSeenAt
+                  : existing.lastSeenAt,
+            },
+          });
+          await tx.tipView.delete({ where: { id: view.id } });
+        } else {
+          await tx.tipView.update({
+            where: { id: view.id },
+            data: { userId: toId },
+          });
+        }
+        counts.movedViews += 1;
+      }
+
+      await tx.device.updateMany({
+        where: { userId: fromId },
+        data: { userId: toId },
+      });
+      await tx.user.delete({ where: { id: fromId } });
+      return counts;
+    },
+    // A user's whole history moves at once, well past the 5s default
+    { maxWait: 10_000, timeout: 60_000 },
+  );
+
+  report.movedActions += merged.movedActions;
+  report.droppedActions += merged.droppedActions;
+  report.movedViews += merged.movedViews;
+  report.mergedUsers += 1;
+}
+
+/**
+ * One-off migration from the fake-email identities. The push-token endpoint
+ * stored a device as `<id>@device.tldev` and the action endpoint as a user
+ * whose own id was `<id>` with `<id>@anonymous.local`, so one install could
+ * be two users. Each `<id>` becomes a `Device` on a single canonical user
+ * (the push-token one, which holds the push token), the other user's data
+ * is merged into it and the fake emails are cleared. Safe to re-run. The
+ * devices start without a token, so the first registration claims each.
+ * Real emails stored before `UserEmail` existed are claimed last, oldest
+ * user first.
+ */
+export async function mergeLegacyDeviceUsers(
+  options: { dryRun?: boolean } = {},
+): Promise<MergeReport & { groups: number }> {
+  const users = await prisma.user.findMany({
+    where: {
+      OR: LEGACY_EMAIL_DOMAINS.map((domain) => ({
+        email: { endsWith: domain },
+      })),
+    },
+    select: { id: true, email: true, pushToken: true, deviceType: true },
+  });
+
+  const groups = new Map<string, typeof users>();
+  for (const user of users) {
+    const deviceId = user.email!.slice(0, user.email!.lastIndexOf("@"));
+    groups.set(deviceId, [...(groups.get(deviceId) ?? []), user]);
+  }
+
+  const report: MergeReport = {
+    devices: 0,
+    mergedUsers: 0,
+    movedActions: 0,
+    droppedActions: 0,
+    movedViews: 0,
+    claimedEmails: 0,
+    emailConflicts: 0,
+  };
+
+  for (const [deviceId, members] of groups) {
+    const device = await prisma.device.findUnique({ where: { deviceId } });
+    const canonicalId =
+      device?.userId ??
+      (members.find((u) => u.email!.endsWith("@device.tldev")) ?? members[0])
+        .id;
+    const others = members.filter((u) => u.id !== canonicalId);
+
+    if (options.dryRun) {
+      report.devices += device ? 0 : 1;
+      report.mergedUsers += others.length;
+      continue;
+    }
+
+    const pushSource = members.find((u) => u.pushToken);
+    for (const other of others) {
+      await mergeUserInto(other.id, canonicalId, report);
+    }
+
+    if (!device) {
+      await prisma.device.create({ data: { deviceId, userId: canonicalId } });
+      report.devices += 1;
+    }
+
+    // Drop the fake email; keep a push token from whichever user had one
+    const canonical = await prisma.user.findUniqueOrThrow({
+      where: { id: canonicalId },
+      select: { email: true, pushToken: true },
+    });
+    await prisma.user.update({
+      where: { id: canonicalId },
+      data: {
+        ...(LEGACY_EMAIL_DOMAINS.some((d) => canonical.email?.endsWith(d)) && {
+          email: null,
+        }),
+        ...(!canonical.pushToken &&
+          pushSource && {
+            pushToken: pushSource.pushToken,
+            deviceType: pushSource.deviceType,
+          }),
+      },
+    });
+  }
+
+  const unclaimed = await prisma.user.findMany({
+    where: { emailClaim: { is: null } },
+    select: { id: true, email: true },
+    orderBy: { createdAt: "asc" },
+  });
+  for (const user of unclaimed) {
+    const email = user.email?.trim().toLowerCase();
+    if (!email || LEGACY_EMAIL_DOMAINS.some((d) => email.endsWith(d))) {
+      continue;
+    }
+    if (options.dryRun) {
+      report.claimedEmails += 1;
+      continue;
+    }
+    try {
+      await prisma.userEmail.create({ data: { email, userId: user.id } });
+      report.claimedEmails += 1;
+    } catch (error) {
+      if (!isPrismaError(error, "P2002")) throw error;
+      console.warn(
+        `[identity] ${email} is already claimed, skipping ${user.id}`,
+      );
+      report.emailConflicts += 1;
+    }
+  }
+
+  return { groups: groups.size, ...report };
+}
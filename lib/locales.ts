@@ -0,0 +1,70 @@
+export const DEFAULT_LOCALE = "en";
+
+// Locales we can serve, with the language name used in translation prompts
+export const SUPPORTED_LOCALES: Record<string, string> = {
+  en: "English",
+  hi: "Hindi",
+  bn: "Bengali",
+  mr: "Marathi",
+  ta: "Tamil",
+  te: "Telugu",
+  kn: "Kannada",
+  gu: "Gujarati",
+  es: "Spanish",
+  pt: "Portuguese",
+};
+
+/**
+ * Locales the translation job fills in, from `TRANSLATION_LOCALES` (e.g.
+ * "hi,ta"). Unsupported entries are ignored.
+ */
+export function translationLocales(): string[] {
+  const configured = (process.env.TRANSLATION_LOCALES || "hi")
+    .split(",")
+    .map((locale) => normalizeLocale(locale))
+    .filter(
+      (locale): locale is string => !!locale && locale !== DEFAULT_LOCALE,
+    );
+  return [...new Set(configured)];
+}
+
+// "hi-IN" → "hi"; null when the language is not supported
+export function normalizeLocale(value: string): string | null {
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  return language && SUPPORTED_LOCALES[language] ? language : null;
+}
+
+/**
+ * Languages from an Accept-Language header, highest quality first.
+ */
+export function parseAcceptLanguage(header: string): string[] {
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      const quality = q ? parseFloat(q.slice(2)) : 1;
+      return { tag, quality: Number.isFinite(quality) ? quality : 0, index };
+    })
+    .filter((entry) => entry.tag && entry.tag !== "*" && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map((entry) => entry.tag);
+}
+
+/**
+ * `?locale=` wins over `Accept-Language`; anything unsupported falls back
+ * to English.
+ */
+export function resolveRequestLocale(request: Request): string {
+  const { searchParams } = new URL(request.url);
+  const explicit = searchParams.get("locale");
+  if (explicit) return normalizeLocale(explicit) ?? DEFAULT_LOCALE;
+
+  for (const tag of parseAcceptLanguage(
+    request.headers.get("accept-language") || "",
+  )) {
+    const locale = normalizeLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { renderTipsV1 } from "@/lib/prompts/tips-v1";
+
+export interface PromptContext {
+  count: number;
+  categories: string[];
+  // One category per tip, in order, when the batch has a category plan
+  categoryPlan: string[] | null;
+  companies: string[];
+  headlinePatterns: string[];
+  excludedTechs: string[];
+  excludedCompanies: string[];
+  bannedWords: readonly string[];
+}
+
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  render: (context: PromptContext) => string;
+}
+
+// Templates are immutable once shipped: change a prompt by adding a version
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    version: "tips-v1",
+    description: "Real company stories with six labelled detail sections",
+    render: renderTipsV1,
+  },
+];
+
+export const DEFAULT_PROMPT_VERSION = "tips-v1";
+
+export function findPromptTemplate(version: string): PromptTemplate | null {
+  return PROMPT_TEMPLATES.find((t) => t.version === version) ?? null;
+}
+
+// e.g. {"tips-v1": 80, "tips-v2": 20}; versions left out get no traffic
+const PromptWeightsSchema = z.record(z.number().min(0));
+
+export function loadPromptWeights(): Record<string, number> {
+  const raw = process.env.PROMPT_AB_WEIGHTS;
+  const fallback = { [DEFAULT_PROMPT_VERSION]: 1 };
+  if (!raw) return fallback;
+
+  try {
+    const weights = PromptWeightsSchema.parse(JSON.parse(raw));
+    const known = Object.fromEntries(
+      Object.entries(weights).filter(
+        ([version, weight]) => weight > 0 && findPromptTemplate(version),
+      ),
+    );
+    return Object.keys(known).length > 0 ? known : fallback;
+  } catch (error) {
+    console.error("[prompt-templates] Invalid PROMPT_AB_WEIGHTS:", error);
+    return fallback;
+  }
+}
+
+/**
+ * Picks the template for a job by weighted random choice. `random` is
+ * injectable so the split can be checked deterministically.
+ */
+export function selectPromptTemplate(
+  weights: Record<string, number> = loadPromptWeights(),
+  random: () => number = Math.random,
+): PromptTemplate {
+  const entries = Object.entries(weights);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  let roll = random() * total;
+  for (const [version, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return findPromptTemplate(version)!;
+  }
+  return findPromptTemplate(entries.at(-1)?.[0] ?? DEFAULT_PROMPT_VERSION)!;
+}
+
+export interface PromptVersionStats {
+  version: string | null;
+  weight: number;
+  publishedTips: number;
+  sharedTips: number;
+  shares: number;
+  shareActions: number;
+  // Shares per published tip
+  shareRate: number;
+  // Fraction of published tips shared at least once
+  sharedTipRate: number;
+}
+
+/**
+ * Share performance of published tips per prompt version. `shares` sums
+ * `Tip.sharesCount` and `shareActions` counts the underlying `Action` rows,
+ * so a gap between the two points at drifted counters. Tips from before
+ * versioning are reported under a null version.
+ */
+export async function loadPromptVersionStats(): Promise<PromptVersionStats[]> {
+  const [groups, sharedGroups, actionGroups] = await Promise.all([
+    prisma.tip.groupBy({
+      by: ["promptVersion"],
+      where: { status: "published" },
+      _count: { _all: true },
+      _sum: { sharesCount: true },
+    }),
+    prisma.tip.groupBy({
+      by: ["promptVersion"],
+      where: { status: "published", sharesCount: { gt: 0 } },
+      _count: { _all: true },
+    }),
+    prisma.action.groupBy({
+      by: ["tipId"],
+      where: { actionType: "share", tip: { status: "published" } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const actionTips = await prisma.tip.findMany({
+    where: { id: { in: actionGroups.map((g) => g.tipId) } },
+    select: { id: true, promptVersion: true },
+  });
+  const versionOfTip = new Map(actionTips.map((t) => [t.id, t.promptVersion]));
+
+  const actionsByVersion = new Map<string | null, number>();
+  for (const group of actionGroups) {
+    const version = versionOfTip.get(group.tipId) ?? null;
+    actionsByVersion.set(
+      version,
+      (actionsByVersion.get(version) ?? 0) + group._count._all,
+    );
+  }
+
+  const weights = loadPromptWeights();
+  const versions = new Set<string | null>([
+    ...PROMPT_TEMPLATES.map((t) => t.version),
+    ...groups.map((g) => g.promptVersion),
+  ]);
+
+  return [...versions].map((version) => {
+    const group = groups.find((g) => g.promptVersion === version);
+    const publishedTips = group?._count._all ?? 0;
+    const shares = group?._sum.sharesCount ?? 0;
+    const sharedTips =
+      sharedGroups.find((g) => g.promptVersion === version)?._count._all ?? 0;
+
+    return {
+      version,
+      weight: version ? (weights[version] ?? 0) : 0,
+      publishedTips,
+      sharedTips,
+      shares,
+      shareActions: actionsByVersion.get(version) ?? 0,
+      shareRate: publishedTips ? shares / publishedTips : 0,
+      sharedTipRate: publishedTips ? sharedTips / publishedTips : 0,
+    };
+  });
+}
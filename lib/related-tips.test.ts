@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Row = {
+  id: string;
+  company: string | null;
+  status: string;
+  embedding: number[];
+  embeddingModel: string | null;
+};
+
+let rows: Row[] = [];
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    tip: {
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        rows.find((row) => row.id === where.id) ?? null,
+      findMany: async ({
+        where,
+      }: {
+        where: { id?: { in: string[] }; embeddingModel?: string };
+      }) =>
+        rows.filter(
+          (row) =>
+            row.status === "published" &&
+            (!where.id || where.id.in.includes(row.id)) &&
+            (!where.embeddingModel ||
+              row.embeddingModel === where.embeddingModel),
+        ),
+    },
+  },
+}));
+
+import type { Embedder } from "@/lib/embeddings";
+import { findRelatedTips } from "@/lib/related-tips";
+
+// Candidates are cached per embedder id, so each test brings its own
+function fakeEmbedder(id: string): Embedder {
+  return {
+    id,
+    embed: async () => {
+      throw new Error("Related tips must not embed");
+    },
+  };
+}
+
+function row(
+  id: string,
+  embedding: number[],
+  overrides: Partial<Row> = {},
+): Row {
+  return {
+    id,
+    company: `Company ${id}`,
+    status: "published",
+    embedding,
+    embeddingModel: "fake/1",
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  rows = [];
+});
+
+describe("findRelatedTips", () => {
+  it("orders by similarity and leaves out the same company", async () => {
+    rows = [
+      row("source", [1, 0], { company: "Stripe" }),
+      row("same-company", [1, 0], { company: " stripe " }),
+      row("close", [0.8, 0.6]),
+      row("far", [0, 1]),
+      row("unpublished", [1, 0], { status: "draft" }),
+    ];
+
+    const related = await findRelatedTips("source", 5, fakeEmbedder("fake/1"));
+
+    expect(related?.map((r) => r.tip.id)).toEqual(["close", "far"]);
+    expect(related?.[0].similarity).toBeCloseTo(0.8, 10);
+  });
+
+  it("compares only vectors from the current embedder", async () => {
+    rows = [
+      row("source", [1, 0], { embeddingModel: "fake/2" }),
+      row("old-model", [1, 0], { embeddingModel: "fake/1" }),
+      row("match", [0.6, 0.8], { embeddingModel: "fake/2" }),
+    ];
+
+    const related = await findRelatedTips("source", 5, fakeEmbedder("fake/2"));
+
+    expect(related?.map((r) => r.tip.id)).toEqual(["match"]);
+  });
+
+  it("returns nothing for a tip without a vector, and null for no tip", async () => {
+    rows = [
+      row("source", [], { embeddingModel: null }),
+      row("other", [1, 0], { embeddingModel: "fake/3" }),
+    ];
+
+    expect(await findRelatedTips("source", 5, fakeEmbedder("fake/3"))).toEqual(
+      [],
+    );
+    expect(
+      await findRelatedTips("missing", 5, fakeEmbedder("fake/3")),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { prisma } from "@/lib/prisma";
+import {
+  cosineSimilarity,
+  resolveEmbedder,
+  type Embedder,
+} from "@/lib/embeddings";
+import { PUBLIC_TIP_SELECT, type PublicTip } from "@/lib/tip-format";
+
+export const RELATED_TIPS_DEFAULT_LIMIT = 5;
+export const RELATED_TIPS_MAX_LIMIT = 20;
+
+// Newest published tips compared against
+const CANDIDATE_POOL_SIZE = 2000;
+const CANDIDATE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export type RelatedTip = { tip: PublicTip; similarity: number };
+
+type Candidate = { id: string; company: string | null; embedding: number[] };
+
+let cachedCandidates: {
+  embedderId: string;
+  loadedAt: number;
+  candidates: Candidate[];
+} | null = null;
+
+/**
+ * Vectors of the newest published tips from one embedder. Loaded once per
+ * TTL and shared by every request, so a related list can miss a tip
+ * published in the last few minutes.
+ */
+async function loadCandidates(embedderId: string): Promise<Candidate[]> {
+  if (
+    cachedCandidates?.embedderId === embedderId &&
+    Date.now() - cachedCandidates.loadedAt < CANDIDATE_CACHE_TTL_MS
+  ) {
+    return cachedCandidates.candidates;
+  }
+
+  const candidates = await prisma.tip.findMany({
+    where: { status: "published", embeddingModel: embedderId },
+    orderBy: { createdAt: "desc" },
+    take: CANDIDATE_POOL_SIZE,
+    select: { id: true, company: true, embedding: true },
+  });
+  cachedCandidates = { embedderId, loadedAt: Date.now(), candidates };
+  return candidates;
+}
+
+/**
+ * Published tips nearest to `tipId` by embedding, most similar first. Tips
+ * about the same company are left out so the list points somewhere new. Only
+ * vectors from the current embedder are compared. Read-only: vectors come
+ * from enrich-tip and its backfill, and a tip without one has no related
+ * tips yet. Returns null when the tip does not exist.
+ */
+export async function findRelatedTips(
+  tipId: string,
+  limit = RELATED_TIPS_DEFAULT_LIMIT,
+  embedder: Embedder = resolveEmbedder(),
+): Promise<RelatedTip[] | null> {
+  const source = await prisma.tip.findUnique({
+    where: { id: tipId },
+    select: { company: true, embedding: true, embeddingModel: true },
+  });
+  if (!source) return null;
+  if (source.embeddingModel !== embedder.id || source.embedding.length === 0) {
+    return [];
+  }
+
+  const company = source.company?.trim().toLowerCase();
+  const nearest = (await loadCandidates(embedder.id))
+    .filter(
+      (c) =>
+        c.id !== tipId &&
+        (!company || c.company?.trim().toLowerCase() !== company),
+    )
+    .map((c) => ({
+      id: c.id,
+      similarity: cosineSimilarity(source.embedding, c.embedding),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+
+  const tips = await prisma.tip.findMany({
+    // Cached candidates may have been unpublished since
+    where: { id: { in: nearest.map((n) => n.id) }, status: "published" },
+    select: PUBLIC_TIP_SELECT,
+  });
+  const byId = new Map(tips.map((tip) => [tip.id, tip]));
+
+  return nearest
+    .filter((n) => byId.has(n.id))
+    .map((n) => ({ tip: byId.get(n.id)!, similarity: n.similarity }));
+}
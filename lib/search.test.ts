@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import {
+  buildSearchIndex,
+  decodeSearchCursor,
+  pageHits,
+  searchIndex,
+  tokenize,
+  type SearchDocument,
+} from "@/lib/search";
+
+function doc(
+  id: string,
+  fields: Partial<SearchDocument["fields"]>,
+  extra: Partial<SearchDocument> = {},
+): SearchDocument {
+  return {
+    id,
+    category: "databases",
+    tags: [],
+    fields: {
+      tip_text: "",
+      tags: "",
+      tip_summary: "",
+      tip_detail: "",
+      code_snippet: "",
+      ...fields,
+    },
+    ...extra,
+  };
+}
+
+const corpus = [
+  doc("a", { tip_detail: "Tune postgres vacuum settings for busy tables." }),
+  doc("b", { tip_text: "Postgres connection limits with pgbouncer" }),
+  doc("c", { tip_text: "Redis eviction policies" }),
+  doc("d", {
+    tip_text: "Postgres pooling limits",
+    tip_summary: "Set max_connections with pooling in mind.",
+  }),
+];
+
+describe("tokenize", () => {
+  it("drops stopwords and splits identifiers", () => {
+    expect(tokenize("How to tune max_connections in Postgres 16")).toEqual([
+      "tune",
+      "max",
+      "connections",
+      "postgres",
+      "16",
+    ]);
+  });
+});
+
+describe("searchIndex", () => {
+  const index = buildSearchIndex(corpus);
+
+  it("ranks headline matches above detail matches", () => {
+    const { hits } = searchIndex(index, "postgres");
+
+    expect(hits.map((hit) => hit.document.id)).toEqual(["b", "d", "a"]);
+  });
+
+  it("ranks documents matching more query terms first", () => {
+    const { hits } = searchIndex(index, "postgres pooling");
+
+    expect(hits[0].document.id).toBe("d");
+    expect(hits.at(-1)?.document.id).toBe("a");
+  });
+
+  it("applies filters before counting facets", () => {
+    const tagged = buildSearchIndex([
+      doc("x", { tip_text: "Postgres indexes" }, { tags: ["Postgres"] }),
+      doc("y", { tip_text: "Postgres on k8s" }, { category: "devops" }),
+    ]);
+
+    const result = searchIndex(tagged, "postgres", { tag: "postgres" });
+
+    expect(result.total).toBe(1);
+    expect(result.facets.categories).toEqual([
+      { value: "databases", count: 1 },
+    ]);
+  });
+});
+
+describe("pageHits", () => {
+  // Equal scores so the id tiebreak decides the order
+  const tied = buildSearchIndex(
+    ["e", "b", "d", "a", "c"].map((id) => doc(id, { tip_text: "kafka" })),
+  );
+  const { hits } = searchIndex(tied, "kafka");
+
+  it("orders ties by id and pages through every hit once", () => {
+    const seen: string[] = [];
+    let cursor = null;
+    do {
+      const { page, nextCursor } = pageHits(hits, 2, cursor);
+      seen.push(...page.map((hit) => hit.document.id));
+      cursor = nextCursor ? decodeSearchCursor(nextCursor) : null;
+    } while (cursor);
+
+    expect(seen).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("resumes after the cursor's (score, id) when a hit disappears", () => {
+    const first = pageHits(hits, 2);
+    const cursor = decodeSearchCursor(first.nextCursor!);
+    const withoutB = hits.filter((hit) => hit.document.id !== "b");
+
+    expect(
+      pageHits(withoutB, 2, cursor).page.map((hit) => hit.document.id),
+    ).toEqual(["c", "d"]);
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodeSearchCursor("not-a-cursor")).toBeNull();
+    expect(
+      decodeSearchCursor(Buffer.from('{"score":"1"}').toString("base64url")),
+    ).toBeNull();
+  });
+});
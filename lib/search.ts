@@ -0,0 +1,319 @@
+import { prisma } from "@/lib/prisma";
+import { normalizeTag } from "@/lib/tags";
+
+// Field weights for ranking; keys are the API field names used in highlights
+export const SEARCH_FIELDS = {
+  tip_text: 3,
+  tags: 3,
+  tip_summary: 2,
+  tip_detail: 1,
+  code_snippet: 1,
+} as const;
+
+export type SearchField = keyof typeof SEARCH_FIELDS;
+
+export type SearchDocument = {
+  id: string;
+  category: string;
+  tags: string[];
+  fields: Record<SearchField, string>;
+};
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  // term → document index → field-weighted term frequency
+  postings: Map<string, Map<number, number>>;
+  // Field-weighted token count per document
+  lengths: number[];
+  averageLength: number;
+}
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by for from how in into is it of on or the this " +
+    "to was what when why with"
+  ).split(" "),
+);
+
+/**
+ * Lowercased words and numbers, without stopwords and single letters.
+ * Identifiers split on punctuation, so `max_connections` and
+ * `max connections` match each other.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (token) => token.length > 1 && !STOPWORDS.has(token),
+  );
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths = documents.map((doc, index) => {
+    let length = 0;
+    for (const [field, weight] of Object.entries(SEARCH_FIELDS)) {
+      for (const term of tokenize(doc.fields[field as SearchField])) {
+        const docs = postings.get(term) ?? new Map<number, number>();
+        docs.set(index, (docs.get(index) ?? 0) + weight);
+        postings.set(term, docs);
+        length += weight;
+      }
+    }
+    return length;
+  });
+
+  return {
+    documents,
+    postings,
+    lengths,
+    averageLength:
+      lengths.reduce((sum, length) => sum + length, 0) /
+      Math.max(lengths.length, 1),
+  };
+}
+
+export type SearchFilters = {
+  category?: string;
+  tag?: string;
+};
+
+export type SearchHit = { document: SearchDocument; score: number };
+
+export type FacetCount = { value: string; count: number };
+
+export type SearchResult = {
+  hits: SearchHit[];
+  total: number;
+  facets: { categories: FacetCount[]; tags: FacetCount[] };
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const MAX_TAG_FACETS = 20;
+
+function countBy(values: string[]): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Ranks documents by BM25 over field-weighted term frequencies, scaled by
+ * the share of query terms each document contains. Hits are ordered by
+ * score, then id, which is the order cursors page through. Facets count
+ * every filtered hit, not just one page.
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  filters: SearchFilters = {},
+): SearchResult {
+  const terms = [...new Set(tokenize(query))];
+  const scores = new Map<number, { score: number; matched: number }>();
+  const total = index.documents.length;
+
+  for (const term of terms) {
+    const docs = index.postings.get(term);
+    if (!docs) continue;
+
+    const idf = Math.log(1 + (total - docs.size + 0.5) / (docs.size + 0.5));
+    for (const [doc, frequency] of docs) {
+      const norm = 1 - B + (B * index.lengths[doc]) / index.averageLength;
+      const entry = scores.get(doc) ?? { score: 0, matched: 0 };
+      entry.score += (idf * frequency * (K1 + 1)) / (frequency + K1 * norm);
+      entry.matched += 1;
+      scores.set(doc, entry);
+    }
+  }
+
+  const tag = filters.tag ? normalizeTag(filters.tag) : null;
+  const hits = [...scores]
+    .map(([doc, { score, matched }]) => ({
+      document: index.documents[doc],
+      score: (score * matched) / terms.length,
+    }))
+    .filter(
+      ({ document }) =>
+        (!filters.category || document.category === filters.category) &&
+        (!tag || document.tags.some((t) => normalizeTag(t) === tag)),
+    )
+    .sort(
+      (a, b) => b.score - a.score || (a.document.id < b.document.id ? -1 : 1),
+    );
+
+  return {
+    hits,
+    total: hits.length,
+    facets: {
+      categories: countBy(hits.map((hit) => hit.document.category)),
+      tags: countBy(hits.flatMap((hit) => hit.document.tags)).slice(
+        0,
+        MAX_TAG_FACETS,
+      ),
+    },
+  };
+}
+
+export type SearchCursor = { score: number; id: string };
+
+export function encodeSearchCursor(hit: SearchHit): string {
+  return Buffer.from(
+    JSON.stringify({ score: hit.score, id: hit.document.id }),
+  ).toString("base64url");
+}
+
+export function decodeSearchCursor(cursor: string): SearchCursor | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return typeof value?.score === "number" && typeof value?.id === "string"
+      ? value
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The page of hits after `cursor`. Cursors carry the last hit's score and
+ * id rather than an offset, so a reindex between pages does not repeat or
+ * skip tips that kept their rank.
+ */
+export function pageHits(
+  hits: SearchHit[],
+  limit: number,
+  cursor?: SearchCursor | null,
+): { page: SearchHit[]; nextCursor?: string } {
+  const start = cursor
+    ? hits.findIndex(
+        (hit) =>
+          hit.score < cursor.score ||
+          (hit.score === cursor.score && hit.document.id > cursor.id),
+      )
+    : 0;
+  if (start === -1) return { page: [] };
+
+  const page = hits.slice(start, start + limit);
+  const hasMore = start + limit < hits.length;
+  return {
+    page,
+    nextCursor: hasMore ? encodeSearchCursor(page[page.length - 1]) : undefined,
+  };
+}
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * An HTML-escaped excerpt of `text` around its first match, with every
+ * matched term wrapped in `<mark>`. Null when no term occurs in the text.
+ */
+export function highlightSnippet(text: string, terms: string[]): string | null {
+  if (!text || terms.length === 0) return null;
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`,
+    "giu",
+  );
+  const first = pattern.exec(text);
+  if (!first) return null;
+
+  // Widen to word boundaries without cutting off the first match
+  const matchEnd = first.index + first[0].length;
+  let start = Math.max(0, first.index - SNIPPET_LEAD);
+  const startSpace = text.indexOf(" ", start);
+  if (start > 0 && startSpace !== -1 && startSpace < first.index) {
+    start = startSpace + 1;
+  }
+  let end = Math.min(text.length, Math.max(start + SNIPPET_LENGTH, matchEnd));
+  const endSpace = text.lastIndexOf(" ", end);
+  if (end < text.length && endSpace >= matchEnd) end = endSpace;
+  const excerpt = text.slice(start, end);
+
+  let snippet = "";
+  let last = 0;
+  // matchAll starts from lastIndex, which the exec above advanced
+  pattern.lastIndex = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    snippet += escapeHtml(excerpt.slice(last, match.index));
+    snippet += `<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index + match[0].length;
+  }
+  snippet += escapeHtml(excerpt.slice(last));
+
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
+
+export type SearchHighlight = { field: SearchField; snippet: string };
+
+export function highlightDocument(
+  document: SearchDocument,
+  query: string,
+): SearchHighlight[] {
+  const terms = [...new Set(tokenize(query))];
+  return (Object.keys(SEARCH_FIELDS) as SearchField[]).flatMap((field) => {
+    const snippet = highlightSnippet(document.fields[field], terms);
+    return snippet ? [{ field, snippet }] : [];
+  });
+}
+
+let cached: { index: SearchIndex; version: string } | null = null;
+
+/**
+ * In-process index over published tips. It is rebuilt when the count or
+ * latest content change of published tips moves, so one cheap aggregate per
+ * search keeps it fresh. `contentUpdatedAt` rather than `updatedAt`, which
+ * every share, like or bookmark bumps.
+ */
+export async function loadSearchIndex(): Promise<SearchIndex> {
+  const stats = await prisma.tip.aggregate({
+    where: { status: "published" },
+    _count: { _all: true },
+    _max: { contentUpdatedAt: true },
+  });
+  const version = `${stats._count._all}:${stats._max.contentUpdatedAt?.toISOString()}`;
+  if (cached?.version === version) return cached.index;
+
+  const tips = await prisma.tip.findMany({
+    where: { status: "published" },
+    select: {
+      id: true,
+      tipText: true,
+      tipSummary: true,
+      tipDetail: true,
+      codeSnippet: true,
+      category: true,
+      tags: true,
+    },
+  });
+
+  const index = buildSearchIndex(
+    tips.map((tip) => ({
+      id: tip.id,
+      category: tip.category,
+      tags: tip.tags,
+      fields: {
+        tip_text: tip.tipText,
+        tags: tip.tags.join(", "),
+        tip_summary: tip.tipSummary ?? "",
+        tip_detail: tip.tipDetail ?? "",
+        code_snippet: tip.codeSnippet ?? "",
+      },
+    })),
+  );
+  cached = { index, version };
+  console.log(`[search] Indexed ${tips.length} published tips`);
+  return index;
+}
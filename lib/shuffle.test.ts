@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { seededPage } from "@/lib/shuffle";
+
+const ids = Array.from({ length: 25 }, (_, i) => `tip-${i}`);
+
+// Follows cursors from the first page to the last
+function allPages(pool: string[], seed: string, limit: number): string[] {
+  const served: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = seededPage(pool, seed, limit, cursor);
+    served.push(...page.ids);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return served;
+}
+
+describe("seededPage", () => {
+  it("serves every id once, in the same order for the same seed", () => {
+    const served = allPages(ids, "seed-a", 10);
+
+    expect([...served].sort()).toEqual([...ids].sort());
+    expect(allPages([...ids].reverse(), "seed-a", 7)).toEqual(served);
+  });
+
+  it("orders differently for another seed", () => {
+    expect(allPages(ids, "seed-b", 25)).not.toEqual(
+      allPages(ids, "seed-a", 25),
+    );
+  });
+
+  it("continues after a cursor whose tip was removed", () => {
+    const first = seededPage(ids, "seed-a", 10);
+    const remaining = ids.filter((id) => id !== first.nextCursor);
+    const next = seededPage(remaining, "seed-a", 10, first.nextCursor);
+
+    expect(next.ids).toEqual(allPages(ids, "seed-a", 25).slice(10, 20));
+  });
+
+  it("never repeats served tips when new ones are published mid-session", () => {
+    const first = seededPage(ids, "seed-a", 10);
+    const grown = [...ids, "tip-new-1", "tip-new-2"];
+    const order = allPages(grown, "seed-a", 50);
+    const rest = order.slice(order.indexOf(first.nextCursor!) + 1);
+
+    expect(rest.filter((id) => first.ids.includes(id))).toEqual([]);
+    expect(seededPage(grown, "seed-a", 50, first.nextCursor).ids).toEqual(rest);
+  });
+});
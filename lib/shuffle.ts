@@ -0,0 +1,55 @@
+// cyrb53: a fast 53-bit string hash, plenty to order a few thousand tips
+function hash53(value: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+type Ranked = { id: string; rank: number };
+
+function compareRanked(a: Ranked, b: Ranked): number {
+  return a.rank - b.rank || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+/**
+ * One page of `ids` in the permutation fixed by `seed`. Each id's position
+ * depends only on the seed and the id itself, so the order is the same on
+ * every request and the cursor can stay a plain tip id: the next page starts
+ * after wherever that id ranks, even if the tip has since been removed.
+ * Tips published mid-session slot into their place without duplicating any
+ * already served.
+ */
+export function seededPage(
+  ids: string[],
+  seed: string,
+  limit: number,
+  cursor?: string | null,
+): { ids: string[]; nextCursor?: string } {
+  const ranked = ids
+    .map((id) => ({ id, rank: hash53(`${seed}:${id}`) }))
+    .sort(compareRanked);
+
+  const after = cursor
+    ? { id: cursor, rank: hash53(`${seed}:${cursor}`) }
+    : null;
+  const start = after
+    ? ranked.findIndex((entry) => compareRanked(entry, after) > 0)
+    : 0;
+  if (start === -1) return { ids: [] };
+
+  const page = ranked.slice(start, start + limit).map((entry) => entry.id);
+  return {
+    ids: page,
+    nextCursor:
+      start + limit < ranked.length ? page[page.length - 1] : undefined,
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+
+const tips: { tags: string[] }[] = [];
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { tip: { findMany: async () => tips } },
+}));
+
+import {
+  loadTagCounts,
+  normalizeTag,
+  normalizeTags,
+  tagsFilter,
+} from "@/lib/tags";
+
+describe("normalizeTag", () => {
+  it("lowercases and hyphenates", () => {
+    expect(normalizeTag("  Event Sourcing ")).toBe("event-sourcing");
+    expect(normalizeTag("#rate__limiting")).toBe("rate-limiting");
+    expect(normalizeTag("-- service - mesh --")).toBe("service-mesh");
+  });
+
+  it("resolves synonyms after normalizing", () => {
+    expect(normalizeTag("K8s")).toBe("kubernetes");
+    expect(normalizeTag("Node.js")).toBe("nodejs");
+    expect(normalizeTag("#Postgres")).toBe("postgresql");
+    expect(normalizeTag("CI/CD")).toBe("ci-cd");
+  });
+
+  it("leaves nothing of blank tags", () => {
+    expect(normalizeTag(" ## ")).toBe("");
+  });
+});
+
+describe("normalizeTags", () => {
+  it("dedupes variants and drops empty tags in original order", () => {
+    expect(
+      normalizeTags(["Kafka", "k8s", " ", "kubernetes", "apache-kafka"]),
+    ).toEqual(["kafka", "kubernetes"]);
+  });
+});
+
+describe("tagsFilter", () => {
+  it("builds any and all filters over normalized tags", () => {
+    expect(tagsFilter(["PG", "redis"], "any")).toEqual({
+      hasSome: ["postgresql", "redis"],
+    });
+    expect(tagsFilter(["PG", "postgresql"], "all")).toEqual({
+      hasEvery: ["postgresql"],
+    });
+  });
+});
+
+describe("loadTagCounts", () => {
+  it("counts variants under their canonical tag once per tip", async () => {
+    tips.splice(
+      0,
+      tips.length,
+      { tags: ["k8s", "Kubernetes"] },
+      { tags: ["kube", "go"] },
+      { tags: ["golang"] },
+      { tags: ["aws"] },
+    );
+
+    expect(await loadTagCounts()).toEqual([
+      { tag: "go", count: 2 },
+      { tag: "kubernetes", count: 2 },
+      { tag: "aws", count: 1 },
+    ]);
+  });
+});
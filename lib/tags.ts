@@ -0,0 +1,90 @@
+import { prisma } from "@/lib/prisma";
+
+// Spelling variants folded into one canonical tag; keys are already normalized
+export const TAG_SYNONYMS: Record<string, string> = {
+  k8s: "kubernetes",
+  kube: "kubernetes",
+  js: "javascript",
+  ts: "typescript",
+  py: "python",
+  golang: "go",
+  postgres: "postgresql",
+  pg: "postgresql",
+  mongo: "mongodb",
+  "node.js": "nodejs",
+  node: "nodejs",
+  "react.js": "react",
+  reactjs: "react",
+  "next.js": "nextjs",
+  "vue.js": "vue",
+  vuejs: "vue",
+  "c#": "csharp",
+  "c++": "cpp",
+  "ci/cd": "ci-cd",
+  cicd: "ci-cd",
+  ml: "machine-learning",
+  llm: "llms",
+  "grpc-web": "grpc",
+  "apache-kafka": "kafka",
+  "amazon-s3": "s3",
+  "aws-s3": "s3",
+};
+
+/**
+ * Lowercased, hyphen-separated form of a tag with synonyms resolved:
+ * "K8s" → "kubernetes", "Event Sourcing" → "event-sourcing". Empty for
+ * tags with nothing left after trimming.
+ */
+export function normalizeTag(tag: string): string {
+  const normalized = tag
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, "")
+    .replace(/[\s_]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-|-$/g, "");
+  return TAG_SYNONYMS[normalized] ?? normalized;
+}
+
+// Normalized, deduplicated, in original order
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
+
+export const TAG_MATCH_MODES = ["any", "all"] as const;
+
+export type TagMatchMode = (typeof TAG_MATCH_MODES)[number];
+
+/**
+ * Prisma filter for `Tip.tags`: "any" matches tips with at least one of the
+ * tags, "all" only tips carrying every one of them.
+ */
+export function tagsFilter(tags: string[], mode: TagMatchMode) {
+  const normalized = normalizeTags(tags);
+  return mode === "all" ? { hasEvery: normalized } : { hasSome: normalized };
+}
+
+export type TagCount = { tag: string; count: number };
+
+/**
+ * Published tips per tag, most used first. Tags are normalized as they are
+ * counted, so variants not yet backfilled still land on their canonical tag.
+ */
+export async function loadTagCounts(
+  options: { category?: string } = {},
+): Promise<TagCount[]> {
+  const tips = await prisma.tip.findMany({
+    where: { status: "published", category: options.category },
+    select: { tags: true },
+  });
+
+  const counts = new Map<string, number>();
+  for (const tip of tips) {
+    for (const tag of normalizeTags(tip.tags)) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
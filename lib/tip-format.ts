@@ -0,0 +1,66 @@
+import type { Prisma } from "@prisma/client";
+import { toApiSections } from "@/lib/tip-sections";
+import { parseCodeHeader } from "@/lib/code-language";
+import { DEFAULT_LOCALE } from "@/lib/locales";
+import type { StoredTranslation } from "@/lib/translate";
+
+// Fields exposed by the public tip endpoints
+export const PUBLIC_TIP_SELECT = {
+  id: true,
+  tipText: true,
+  tipSummary: true,
+  tipDetail: true,
+  detailSections: true,
+  codeSnippet: true,
+  codeLanguage: true,
+  category: true,
+  tags: true,
+  uniqueTopic: true,
+  primaryTech: true,
+  company: true,
+  headlinePattern: true,
+  claimProvenance: true,
+  image: true,
+  createdAt: true,
+} satisfies Prisma.TipSelect;
+
+export type PublicTip = Prisma.TipGetPayload<{
+  select: typeof PUBLIC_TIP_SELECT;
+}>;
+
+// Older tips still carry the language comment inside the snippet
+function apiCode(tip: PublicTip) {
+  if (tip.codeLanguage || !tip.codeSnippet) {
+    return { snippet: tip.codeSnippet, language: tip.codeLanguage };
+  }
+  const parsed = parseCodeHeader(tip.codeSnippet);
+  return { snippet: parsed.code, language: parsed.language };
+}
+
+/**
+ * API shape of a tip. With a translation the text fields come from it and
+ * `locale` names its language; code and metadata are never translated.
+ */
+export function formatTip(tip: PublicTip, translation?: StoredTranslation) {
+  const code = apiCode(tip);
+  const text = translation ?? tip;
+  return {
+    id: tip.id,
+    locale: translation?.locale ?? DEFAULT_LOCALE,
+    tip_text: text.tipText,
+    tip_summary: text.tipSummary,
+    tip_detail: text.tipDetail,
+    tip_detail_sections: toApiSections(text.detailSections, text.tipDetail),
+    code_snippet: code.snippet,
+    code_language: code.language,
+    category: tip.category,
+    tags: tip.tags,
+    unique_topic: tip.uniqueTopic,
+    primary_tech: tip.primaryTech,
+    company: tip.company,
+    headline_pattern: tip.headlinePattern,
+    claim_provenance: tip.claimProvenance,
+    image: tip.image,
+    created_at: tip.createdAt,
+  };
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  lintBatch,
+  lintTip,
+  qualityThresholds,
+  scoreViolations,
+  type LintableTip,
+} from "@/lib/tip-quality";
+
+const DETAIL = [
+  "HOOK: Discord's message store was falling behind as servers grew past millions of members.",
+  "TENSION: Cassandra compactions stalled reads, and on-call engineers kept firefighting hot partitions.",
+  "PAYOFF: Moving to ScyllaDB cut p99 read latency from 40ms to 15ms across trillions of messages.",
+  "WHEN_NOT_TO_USE: Small clusters with modest write volume gain little from the migration effort.",
+  "FAILURE_STORY: One hot partition for a huge server once took a whole node down during a launch.",
+  "TAKEAWAY: Model partitions around real access patterns before picking a storage engine.",
+].join("\n");
+
+const tip: LintableTip = {
+  tip_text: "Discord cut p99 reads 60% with ScyllaDB",
+  tip_summary:
+    "Discord moved trillions of messages from Cassandra to ScyllaDB and cut tail read latency sharply.",
+  tip_detail: DETAIL,
+  code_snippet: [
+    "// TypeScript",
+    "const bucket = Math.floor(Date.now() / 86_400_000);",
+    "console.log(`messages:${bucket}`);",
+  ].join("\n"),
+  company: "Discord",
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function rules(t: LintableTip) {
+  return lintTip(t).map((v) => v.rule);
+}
+
+describe("lintTip", () => {
+  it("passes a tip that follows every rule", () => {
+    expect(lintTip(tip)).toEqual([]);
+  });
+
+  it("flags banned words and long headlines", () => {
+    expect(
+      rules({
+        ...tip,
+        tip_text: "The ultimate guide to how Discord scaled message storage",
+      }),
+    ).toEqual(["banned_word"]);
+    expect(rules({ ...tip, tip_text: "x".repeat(61) })).toEqual([
+      "headline_length",
+    ]);
+  });
+
+  it("flags summary and detail lengths and missing sections", () => {
+    expect(rules({ ...tip, tip_summary: "Too short." })).toEqual([
+      "summary_length",
+    ]);
+    expect(
+      rules({ ...tip, tip_detail: DETAIL.replace(/^TAKEAWAY:.*$/m, "") }),
+    ).toEqual(["detail_length", "missing_sections"]);
+  });
+
+  it("flags code without a language comment or that does not parse", () => {
+    expect(rules({ ...tip, code_snippet: "const x = 1;" })).toContain(
+      "code_language_comment",
+    );
+    expect(
+      rules({ ...tip, code_snippet: "// TypeScript\nconst x = {;" }),
+    ).toEqual(["code_syntax"]);
+  });
+});
+
+describe("lintBatch", () => {
+  it("flags a company repeated later in the batch", () => {
+    const [first, second] = lintBatch([tip, { ...tip, company: " discord " }]);
+
+    expect(first).toEqual({ score: 100, violations: [] });
+    expect(second.violations.map((v) => v.rule)).toEqual(["duplicate_company"]);
+    expect(second.score).toBe(80);
+  });
+});
+
+describe("scoring", () => {
+  it("deducts each rule's penalty and floors at zero", () => {
+    expect(
+      scoreViolations([
+        { rule: "missing_sections", message: "" },
+        { rule: "banned_word", message: "" },
+      ]),
+    ).toBe(45);
+    expect(
+      scoreViolations(
+        Array.from({ length: 5 }, () => ({
+          rule: "missing_sections" as const,
+          message: "",
+        })),
+      ),
+    ).toBe(0);
+  });
+
+  it("keeps the fail threshold at or below the publish threshold", () => {
+    vi.stubEnv("QUALITY_PUBLISH_THRESHOLD", "50");
+    vi.stubEnv("QUALITY_FAIL_THRESHOLD", "60");
+    expect(qualityThresholds()).toEqual({ publish: 50, fail: 50 });
+
+    vi.stubEnv("QUALITY_PUBLISH_THRESHOLD", "150");
+    expect(qualityThresholds().publish).toBe(70);
+  });
+});
@@ -0,0 +1,204 @@
+import { parseTipSections } from "@/lib/tip-sections";
+import { analyzeCodeSnippet } from "@/lib/code-syntax";
+
+export const BANNED_HEADLINE_WORDS = [
+  "ultimate",
+  "insane",
+  "amazing",
+  "awesome",
+  "powerful",
+  "magic",
+  "simple",
+] as const;
+
+export const QUALITY_LIMITS = {
+  headlineMax: 60,
+  summaryMin: 80,
+  summaryMax: 150,
+  detailMin: 500,
+  detailMax: 800,
+} as const;
+
+export type QualityRule =
+  | "banned_word"
+  | "headline_length"
+  | "summary_length"
+  | "detail_length"
+  | "missing_sections"
+  | "code_language_comment"
+  | "code_syntax"
+  | "duplicate_company";
+
+// Points deducted from 100 for each violation of a rule
+const RULE_PENALTIES: Record<QualityRule, number> = {
+  banned_word: 25,
+  headline_length: 15,
+  summary_length: 10,
+  detail_length: 10,
+  missing_sections: 30,
+  code_language_comment: 15,
+  code_syntax: 20,
+  duplicate_company: 20,
+};
+
+// Mirrors the `QualityViolation` composite type in prisma/schema.prisma
+export type QualityViolation = {
+  rule: QualityRule;
+  message: string;
+};
+
+export type QualityReport = {
+  score: number;
+  violations: QualityViolation[];
+};
+
+export type LintableTip = {
+  tip_text: string;
+  tip_summary: string;
+  tip_detail: string;
+  code_snippet: string;
+  company?: string;
+};
+
+const DEFAULT_PUBLISH_THRESHOLD = 70;
+const DEFAULT_FAIL_THRESHOLD = 40;
+
+function envScore(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= 0 && value <= 100
+    ? value
+    : fallback;
+}
+
+/**
+ * `QUALITY_PUBLISH_THRESHOLD`: minimum score enrich-tip will publish.
+ * `QUALITY_FAIL_THRESHOLD`: below this a tip is stored as failed; between
+ * the two it is held in draft for review.
+ */
+export function qualityThresholds() {
+  const publish = envScore(
+    "QUALITY_PUBLISH_THRESHOLD",
+    DEFAULT_PUBLISH_THRESHOLD,
+  );
+  return {
+    publish,
+    fail: Math.min(
+      publish,
+      envScore("QUALITY_FAIL_THRESHOLD", DEFAULT_FAIL_THRESHOLD),
+    ),
+  };
+}
+
+function lengthViolation(
+  rule: QualityRule,
+  label: string,
+  length: number,
+  min: number,
+  max: number,
+): QualityViolation | null {
+  if (length >= min && length <= max) return null;
+  return {
+    rule,
+    message: `${label} is ${length} chars (expected ${min}-${max})`,
+  };
+}
+
+/**
+ * Checks one tip against the rules the generation prompt asks for. Batch
+ * rules such as company reuse are applied by `lintBatch`.
+ */
+export function lintTip(tip: LintableTip): QualityViolation[] {
+  const violations: QualityViolation[] = [];
+
+  const bannedWords = BANNED_HEADLINE_WORDS.filter((word) =>
+    new RegExp(`\\b${word}\\b`, "i").test(tip.tip_text),
+  );
+  if (bannedWords.length > 0) {
+    violations.push({
+      rule: "banned_word",
+      message: `Headline uses banned words: ${bannedWords.join(", ")}`,
+    });
+  }
+
+  if (tip.tip_text.length > QUALITY_LIMITS.headlineMax) {
+    violations.push({
+      rule: "headline_length",
+      message: `Headline is ${tip.tip_text.length} chars (max ${QUALITY_LIMITS.headlineMax})`,
+    });
+  }
+
+  const summary = lengthViolation(
+    "summary_length",
+    "Summary",
+    tip.tip_summary.length,
+    QUALITY_LIMITS.summaryMin,
+    QUALITY_LIMITS.summaryMax,
+  );
+  if (summary) violations.push(summary);
+
+  const detail = lengthViolation(
+    "detail_length",
+    "Detail",
+    tip.tip_detail.length,
+    QUALITY_LIMITS.detailMin,
+    QUALITY_LIMITS.detailMax,
+  );
+  if (detail) violations.push(detail);
+
+  const { missing } = parseTipSections(tip.tip_detail);
+  if (missing.length > 0) {
+    violations.push({
+      rule: "missing_sections",
+      message: `Detail is missing sections: ${missing.join(", ")}`,
+    });
+  }
+
+  const code = analyzeCodeSnippet(tip.code_snippet);
+  if (!code.header) {
+    violations.push({
+      rule: "code_language_comment",
+      message: "Code snippet does not start with a language comment",
+    });
+  }
+  if (!code.syntax.valid) {
+    violations.push({
+      rule: "code_syntax",
+      message: `Code snippet does not parse as ${code.language}: ${code.syntax.error}`,
+    });
+  }
+
+  return violations;
+}
+
+export function scoreViolations(violations: QualityViolation[]): number {
+  const penalty = violations.reduce(
+    (sum, violation) => sum + RULE_PENALTIES[violation.rule],
+    0,
+  );
+  return Math.max(0, 100 - penalty);
+}
+
+/**
+ * Lints a batch in order. A company already used by an earlier tip in the
+ * batch is flagged on every later tip that repeats it.
+ */
+export function lintBatch(tips: LintableTip[]): QualityReport[] {
+  const seenCompanies = new Set<string>();
+
+  return tips.map((tip) => {
+    const violations = lintTip(tip);
+
+    const company = tip.company?.trim().toLowerCase();
+    if (company) {
+      if (seenCompanies.has(company)) {
+        violations.push({
+          rule: "duplicate_company",
+          message: `Company "${tip.company}" is already used in this batch`,
+        });
+      }
+      seenCompanies.add(company);
+    }
+
+    return { score: scoreViolations(violations), violations };
+  });
+}
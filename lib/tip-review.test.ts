@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MockLanguageModelV1 } from "ai/test";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import type { GeneratedTip } from "@/lib/ai";
+import type { ProviderTarget } from "@/lib/ai-provider";
+import { parseTipSections, type TipSections } from "@/lib/tip-sections";
+import { reviewTips } from "@/lib/tip-review";
+
+const DETAIL = [
+  "HOOK: Stripe's API p99 latency doubled during a traffic spike.",
+  "TENSION: Every request re-read idempotency keys from Postgres.",
+  "PAYOFF: Caching the keys in Redis cut p99 latency by 40%.",
+  "WHEN_NOT_TO_USE: Skip it when keys must survive a cache flush.",
+  "FAILURE_STORY: A cold cache once sent the whole load back to Postgres.",
+  "TAKEAWAY: Put hot, short-lived lookups in a cache with a fallback.",
+].join("\n");
+
+const CODE = [
+  "// TypeScript",
+  "const cached = await redis.get(key);",
+  "if (cached) return JSON.parse(cached);",
+  "const row = await db.idempotencyKey.findUnique({ where: { key } });",
+  "await redis.set(key, JSON.stringify(row), { EX: 86400 });",
+  "return row;",
+].join("\n");
+
+const draft: GeneratedTip = {
+  id: "tip-1",
+  tip_text: "Stripe cut p99 latency 40% with Redis",
+  tip_summary: "Caching idempotency keys in Redis halved tail latency.",
+  tip_detail: DETAIL,
+  detail_sections: parseTipSections(DETAIL).sections as TipSections,
+  code_snippet: CODE,
+  category: "Performance",
+  tags: ["redis", "caching"],
+  unique_topic: "stripe-redis-idempotency",
+  primary_tech: "Redis",
+  company: "Stripe",
+  headline_pattern: "[Company] cut [metric] by [%] using [Tech]",
+  claim_provenance: "production-observed",
+  ai_model: "fake/writer",
+  prompt_version: "v1",
+};
+
+// Answers each model call with the next canned reply, as raw JSON text
+function fakeReviewer(replies: unknown[]): ProviderTarget {
+  return {
+    provider: "fake",
+    modelId: "fake/reviewer",
+    model: new MockLanguageModelV1({
+      defaultObjectGenerationMode: "json",
+      doGenerate: async () => {
+        const reply = replies.shift();
+        return {
+          rawCall: { rawPrompt: null, rawSettings: {} },
+          finishReason: "stop",
+          usage: { promptTokens: 10, completionTokens: 10 },
+          text: typeof reply === "string" ? reply : JSON.stringify(reply),
+        };
+      },
+    }),
+  };
+}
+
+beforeEach(() => {
+  vi.stubEnv("AI_MAX_ATTEMPTS", "1");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("reviewTips", () => {
+  it("keeps a tip the reviewer accepts", async () => {
+    const reviewer = fakeReviewer([
+      { critiques: [{ index: 0, passed: true, notes: [] }] },
+    ]);
+
+    const result = await reviewTips([draft], { targets: [reviewer] });
+
+    expect(result.error).toBeUndefined();
+    expect(result.failedCount).toBe(0);
+    expect(result.revisedCount).toBe(0);
+    expect(result.tips[0]).toEqual({
+      ...draft,
+      critique: {
+        passed: true,
+        revised: false,
+        model: "fake/reviewer",
+        notes: [],
+      },
+    });
+  });
+
+  it("swaps in the revision for a tip the reviewer rejects", async () => {
+    const note = { rule: "specific_metric", note: "Name the latency number" };
+    const reviewer = fakeReviewer([
+      { critiques: [{ index: 0, passed: false, notes: [note] }] },
+      [
+        {
+          index: 0,
+          tip_text: "Stripe cut p99 latency from 80ms to 48ms with Redis",
+          tip_summary: draft.tip_summary,
+          tip_detail: DETAIL,
+          code_snippet: CODE,
+          category: "Performance",
+          tags: ["Redis", "k8s"],
+          // Anchors the revision must not change
+          unique_topic: "something-else",
+          primary_tech: "Memcached",
+          company: "Stripe",
+          headline_pattern: draft.headline_pattern,
+          claim_provenance: "benchmark-based",
+        },
+      ],
+    ]);
+
+    const result = await reviewTips([draft], { targets: [reviewer] });
+    const [tip] = result.tips;
+
+    expect(result.failedCount).toBe(1);
+    expect(result.revisedCount).toBe(1);
+    expect(tip.tip_text).toBe(
+      "Stripe cut p99 latency from 80ms to 48ms with Redis",
+    );
+    expect(tip.claim_provenance).toBe("benchmark-based");
+    expect(tip.tags).toEqual(["redis", "kubernetes"]);
+    expect(tip.unique_topic).toBe(draft.unique_topic);
+    expect(tip.primary_tech).toBe(draft.primary_tech);
+    expect(tip.id).toBe(draft.id);
+    expect(tip.critique).toEqual({
+      passed: false,
+      revised: true,
+      model: "fake/reviewer",
+      notes: [note],
+    });
+  });
+
+  it("treats a pass that lists problems as a failure", async () => {
+    const reviewer = fakeReviewer([
+      {
+        critiques: [
+          {
+            index: 0,
+            passed: true,
+            notes: [{ rule: "runnable_code", note: "Missing import" }],
+          },
+        ],
+      },
+      "[]",
+    ]);
+
+    const result = await reviewTips([draft], { targets: [reviewer] });
+
+    expect(result.failedCount).toBe(1);
+    expect(result.tips[0].critique?.passed).toBe(false);
+  });
+
+  it("falls back to the original tips when the critique is malformed", async () => {
+    const reviewer = fakeReviewer(['{"critiques": "looks fine"}']);
+
+    const result = await reviewTips([draft], { targets: [reviewer] });
+
+    expect(result.error).toContain("All providers failed");
+    expect(result.model).toBeNull();
+    expect(result.tips).toEqual([draft]);
+  });
+
+  it("keeps the drafted tip when the revision is malformed", async () => {
+    const note = { rule: "real_company", note: "Invented incident" };
+    const reviewer = fakeReviewer([
+      { critiques: [{ index: 0, passed: false, notes: [note] }] },
+      [{ index: 0, tip_text: "Too short" }],
+    ]);
+
+    const result = await reviewTips([draft], { targets: [reviewer] });
+
+    expect(result.revisedCount).toBe(0);
+    expect(result.tips[0]).toEqual({
+      ...draft,
+      critique: {
+        passed: false,
+        revised: false,
+        model: "fake/reviewer",
+        notes: [note],
+      },
+    });
+  });
+});
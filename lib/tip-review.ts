@@ -0,0 +1,280 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import {
+  buildTipSchema,
+  lenientArraySchema,
+  type GeneratedTip,
+} from "@/lib/ai";
+import {
+  ProviderChainError,
+  runWithFallback,
+  type ModelOverride,
+  type ProviderAttempt,
+} from "@/lib/ai-provider";
+import { trackUsage, type TokenUsage } from "@/lib/ai-usage";
+import { salvageTips } from "@/lib/tip-salvage";
+import { normalizeTags } from "@/lib/tags";
+import { parseTipSections, type TipSections } from "@/lib/tip-sections";
+
+export const CRITIQUE_RULES = [
+  "real_company",
+  "specific_metric",
+  "section_structure",
+  "runnable_code",
+] as const;
+
+export type CritiqueRule = (typeof CRITIQUE_RULES)[number];
+
+// Mirrors the `TipCritique` composite type in prisma/schema.prisma
+export type TipCritique = {
+  passed: boolean;
+  revised: boolean;
+  model: string;
+  notes: { rule: CritiqueRule; note: string }[];
+};
+
+const CritiqueSchema = z.object({
+  critiques: z.array(
+    z.object({
+      index: z.number().int().describe("Index of the tip being reviewed"),
+      passed: z.boolean().describe("True only if every rule is satisfied"),
+      notes: z
+        .array(
+          z.object({
+            rule: z.enum(CRITIQUE_RULES),
+            note: z.string().describe("What is wrong and how to fix it"),
+          }),
+        )
+        .describe("One note per broken rule; empty when passed"),
+    }),
+  ),
+});
+
+const RULES_PROMPT = `- real_company: the story is about a real, named company and a real engineering decision, not an invented one
+- specific_metric: the headline and payoff cite a specific number or measurable outcome
+- section_structure: tip_detail has HOOK, TENSION, PAYOFF, WHEN_NOT_TO_USE, FAILURE_STORY and TAKEAWAY, each on its own line, in that order
+- runnable_code: code_snippet starts with a language comment and is 5-15 lines of code that would run, not pseudo-code`;
+
+function draftsForPrompt(tips: GeneratedTip[], indexes: number[]) {
+  return JSON.stringify(
+    indexes.map((index) => ({
+      index,
+      tip_text: tips[index].tip_text,
+      tip_summary: tips[index].tip_summary,
+      tip_detail: tips[index].tip_detail,
+      code_snippet: tips[index].code_snippet,
+      company: tips[index].company,
+      primary_tech: tips[index].primary_tech,
+    })),
+    null,
+    2,
+  );
+}
+
+async function critique(
+  tips: GeneratedTip[],
+  usage: TokenUsage[],
+  modelOverride?: ModelOverride,
+) {
+  const prompt = `You are a strict editor reviewing developer tips before publication.
+Check every tip below against these rules:
+${RULES_PROMPT}
+
+Return one critique per tip, using the tip's index. Be concrete in notes; do not rewrite the tips.
+
+TIPS:
+${draftsForPrompt(
+  tips,
+  tips.map((_, i) => i),
+)}`;
+
+  return runWithFallback(async (target, abortSignal) => {
+    const { object } = await trackUsage(usage, target, "critique", () =>
+      generateObject({
+        model: target.model,
+        schema: CritiqueSchema,
+        prompt,
+        temperature: 0,
+        maxRetries: 0,
+        abortSignal,
+      }),
+    );
+    return object.critiques;
+  }, modelOverride);
+}
+
+async function revise(
+  tips: GeneratedTip[],
+  critiques: Map<number, TipCritique>,
+  usage: TokenUsage[],
+  modelOverride?: ModelOverride,
+) {
+  const indexes = [...critiques.keys()];
+  const categories = [...new Set(indexes.map((i) => tips[i].category))];
+  const reviseSchema = buildTipSchema(categories).extend({
+    index: z.number().int().describe("Index of the tip being revised"),
+  });
+
+  const notesPrompt = indexes
+    .map(
+      (index) =>
+        `Tip ${index}:\n${critiques
+          .get(index)!
+          .notes.map((n) => `- [${n.rule}] ${n.note}`)
+          .join("\n")}`,
+    )
+    .join("\n\n");
+
+  const prompt = `You are revising developer tips that failed editorial review.
+Rewrite each tip so it satisfies every rule:
+${RULES_PROMPT}
+
+Keep each tip's index, category, unique_topic, primary_tech, company and headline_pattern unchanged. Keep the headline under 60 characters and tip_detail between 500 and 800 characters.
+
+EDITOR NOTES:
+${notesPrompt}
+
+TIPS TO REVISE:
+${draftsForPrompt(tips, indexes)}`;
+
+  return runWithFallback(async (target, abortSignal) => {
+    const { object } = await trackUsage(usage, target, "revision", () =>
+      generateObject({
+        model: target.model,
+        schema: lenientArraySchema(reviseSchema),
+        prompt,
+        temperature: 0.3,
+        maxTokens: 16000,
+        maxRetries: 0,
+        abortSignal,
+      }),
+    );
+    return salvageTips(object, reviseSchema, categories).valid;
+  }, modelOverride);
+}
+
+/**
+ * Second pass over a generated batch: a critic checks every tip against the
+ * prompt rules and tips that fail are rewritten once. Revised tips keep their
+ * id and anchor fields; tips whose revision fails validation are kept as
+ * drafted. Each returned tip carries its critique for editors.
+ */
+export async function reviewTips(
+  tips: GeneratedTip[],
+  modelOverride?: ModelOverride,
+): Promise<{
+  tips: GeneratedTip[];
+  model: string | null;
+  attempts: ProviderAttempt[];
+  usage: TokenUsage[];
+  failedCount: number;
+  revisedCount: number;
+  error?: string;
+}> {
+  if (tips.length === 0) {
+    return {
+      tips,
+      model: null,
+      attempts: [],
+      usage: [],
+      failedCount: 0,
+      revisedCount: 0,
+    };
+  }
+
+  const attempts: ProviderAttempt[] = [];
+  const usage: TokenUsage[] = [];
+
+  let critiques: Map<number, TipCritique>;
+  let model: string;
+  try {
+    const result = await critique(tips, usage, modelOverride);
+    attempts.push(...result.attempts);
+    model = result.target.modelId;
+
+    critiques = new Map();
+    for (const entry of result.result) {
+      if (!tips[entry.index] || critiques.has(entry.index)) continue;
+      critiques.set(entry.index, {
+        // A "pass" that still lists problems is treated as a failure
+        passed: entry.passed && entry.notes.length === 0,
+        revised: false,
+        model,
+        notes: entry.notes,
+      });
+    }
+  } catch (error) {
+    console.error("[AI] Critique failed:", error);
+    return {
+      tips,
+      model: null,
+      attempts: error instanceof ProviderChainError ? error.attempts : attempts,
+      usage,
+      failedCount: 0,
+      revisedCount: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  const failing = new Map(
+    [...critiques].filter(([, critique]) => !critique.passed),
+  );
+
+  let revisions = new Map<number, GeneratedTip>();
+  let reviseError: string | undefined;
+
+  if (failing.size > 0) {
+    try {
+      const result = await revise(tips, failing, usage, modelOverride);
+      attempts.push(...result.attempts);
+
+      revisions = new Map(
+        result.result
+          .filter((revised) => failing.has(revised.index))
+          .map((revised) => {
+            // Anchor fields stay as drafted so dedup and scheduling still hold
+            const tip: GeneratedTip = {
+              ...tips[revised.index],
+              tip_text: revised.tip_text,
+              tip_summary: revised.tip_summary,
+              tip_detail: revised.tip_detail,
+              detail_sections: parseTipSections(revised.tip_detail)
+                .sections as TipSections,
+              code_snippet: revised.code_snippet,
+              tags: normalizeTags(revised.tags),
+              claim_provenance: revised.claim_provenance,
+            };
+            return [revised.index, tip] as const;
+          }),
+      );
+    } catch (error) {
+      console.error("[AI] Revision failed:", error);
+      if (error instanceof ProviderChainError) attempts.push(...error.attempts);
+      reviseError = error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+
+  const reviewed = tips.map((tip, index) => {
+    const critique = critiques.get(index);
+    if (!critique) return tip;
+
+    const revision = revisions.get(index);
+    return revision
+      ? { ...revision, critique: { ...critique, revised: true } }
+      : { ...tip, critique };
+  });
+
+  console.log(
+    `[AI] Reviewed ${tips.length} tips with ${model}: ${failing.size} failed critique, ${revisions.size} revised`,
+  );
+
+  return {
+    tips: reviewed,
+    model,
+    attempts,
+    usage,
+    failedCount: failing.size,
+    revisedCount: revisions.size,
+    error: reviseError,
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { repairTip, salvageTips, TIP_FIELD_LIMITS } from "@/lib/tip-salvage";
+
+const CATEGORIES = ["Performance", "Security"];
+
+const schema = z.object({
+  tip_text: z.string().min(10).max(TIP_FIELD_LIMITS.tip_text),
+  category: z.enum(["Performance", "Security"]),
+  tags: z.array(z.string()).max(TIP_FIELD_LIMITS.tags),
+});
+
+const valid = {
+  tip_text: "Stripe cut p99 latency 40% with Redis",
+  category: "Performance",
+  tags: ["redis"],
+};
+
+describe("repairTip", () => {
+  it("fixes category case, tag spelling and provenance format", () => {
+    const { tip, fields } = repairTip(
+      {
+        ...valid,
+        category: " performance ",
+        tags: [" Redis ", "", 42, "CACHING"],
+        claim_provenance: "Production Observed",
+      },
+      CATEGORIES,
+    );
+
+    expect(tip).toMatchObject({
+      category: "Performance",
+      tags: ["redis", "caching"],
+      claim_provenance: "production-observed",
+    });
+    expect(fields).toEqual(["category", "tags", "claim_provenance"]);
+  });
+
+  it("truncates long text on a word boundary", () => {
+    const { tip } = repairTip(
+      { ...valid, tip_text: "word ".repeat(60) },
+      CATEGORIES,
+    );
+    const text = tip.tip_text as string;
+
+    expect(text.length).toBeLessThanOrEqual(TIP_FIELD_LIMITS.tip_text);
+    expect(text.endsWith("word…")).toBe(true);
+  });
+
+  it("leaves a clean tip untouched", () => {
+    expect(repairTip(valid, CATEGORIES).fields).toEqual([]);
+  });
+});
+
+describe("salvageTips", () => {
+  it("keeps only the valid tips, repairing what it can", () => {
+    const {
+      valid: kept,
+      rejected,
+      repaired,
+    } = salvageTips(
+      [
+        valid,
+        { ...valid, category: "security" },
+        { ...valid, tip_text: "Too short" },
+        "not a tip",
+      ],
+      schema,
+      CATEGORIES,
+    );
+
+    expect(kept).toEqual([valid, { ...valid, category: "Security" }]);
+    expect(repaired).toEqual([
+      { index: 1, tipText: valid.tip_text, fields: ["category"] },
+    ]);
+    expect(rejected.map((r) => [r.index, r.issues[0].path])).toEqual([
+      [2, "tip_text"],
+      [3, "(root)"],
+    ]);
+  });
+});
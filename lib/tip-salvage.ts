@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { normalizeDetailLabels, repairTipDetail } from "@/lib/tip-sections";
+
+export const TIP_FIELD_LIMITS = {
+  tip_text: 150,
+  tip_summary: 400,
+  tip_detail: 3000,
+  tags: 10,
+} as const;
+
+export type SchemaIssue = { path: string; message: string };
+
+export type SalvageRejection = {
+  index: number;
+  tipText?: string;
+  issues: SchemaIssue[];
+};
+
+export type SalvageRepair = {
+  index: number;
+  tipText: string;
+  fields: string[];
+};
+
+function truncate(value: string, max: number): string {
+  if (value.length <= max) return value;
+  const cut = value.slice(0, max - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > max * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * Fixes what can be fixed mechanically without changing the meaning of a
+ * tip. Returns the repaired copy and the fields that were touched.
+ */
+export function repairTip(
+  raw: Record<string, unknown>,
+  categories: string[],
+): { tip: Record<string, unknown>; fields: string[] } {
+  const tip = { ...raw };
+  const fields: string[] = [];
+
+  const set = (key: string, value: unknown) => {
+    if (JSON.stringify(tip[key]) !== JSON.stringify(value)) {
+      tip[key] = value;
+      fields.push(key);
+    }
+  };
+
+  for (const key of ["tip_text", "tip_summary"] as const) {
+    if (typeof tip[key] === "string") {
+      set(key, truncate((tip[key] as string).trim(), TIP_FIELD_LIMITS[key]));
+    }
+  }
+
+  if (typeof tip.tip_detail === "string") {
+    const detail = repairTipDetail(tip.tip_detail);
+    set(
+      "tip_detail",
+      detail.ok ? detail.detail : normalizeDetailLabels(tip.tip_detail),
+    );
+  }
+
+  if (typeof tip.category === "string") {
+    const match = categories.find(
+      (c) => c.toLowerCase() === (tip.category as string).trim().toLowerCase(),
+    );
+    if (match) set("category", match);
+  }
+
+  if (Array.isArray(tip.tags)) {
+    set(
+      "tags",
+      tip.tags
+        .filter((t): t is string => typeof t === "string")
+        .map((t) => t.trim().toLowerCase())
+        .filter(Boolean)
+        .slice(0, TIP_FIELD_LIMITS.tags),
+    );
+  } else if (tip.tags === undefined) {
+    set("tags", []);
+  }
+
+  if (typeof tip.claim_provenance === "string") {
+    set(
+      "claim_provenance",
+      tip.claim_provenance
+        .trim()
+        .toLowerCase()
+        .replace(/[\s_]+/g, "-"),
+    );
+  }
+
+  return { tip, fields };
+}
+
+function issuesOf(error: z.ZodError): SchemaIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+/**
+ * Validates each array element on its own so one bad tip does not sink the
+ * batch. Elements that fail are repaired once and re-validated; the rest
+ * are reported with their failing zod paths.
+ */
+export function salvageTips<T>(
+  items: unknown[],
+  schema: z.ZodType<T>,
+  categories: string[],
+): { valid: T[]; rejected: SalvageRejection[]; repaired: SalvageRepair[] } {
+  const valid: T[] = [];
+  const rejected: SalvageRejection[] = [];
+  const repaired: SalvageRepair[] = [];
+
+  items.forEach((item, index) => {
+    const first = schema.safeParse(item);
+    if (first.success) {
+      valid.push(first.data);
+      return;
+    }
+
+    const tipText =
+      item && typeof item === "object" && "tip_text" in item
+        ? String((item as { tip_text: unknown }).tip_text)
+        : undefined;
+
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      rejected.push({ index, tipText, issues: issuesOf(first.error) });
+      return;
+    }
+
+    const { tip, fields } = repairTip(
+      item as Record<string, unknown>,
+      categories,
+    );
+    const second = schema.safeParse(tip);
+
+    if (second.success) {
+      valid.push(second.data);
+      repaired.push({ index, tipText: String(tip.tip_text), fields });
+    } else {
+      rejected.push({ index, tipText, issues: issuesOf(second.error) });
+    }
+  });
+
+  return { valid, rejected, repaired };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeDetailLabels,
+  parseTipSections,
+  repairTipDetail,
+  toApiSections,
+} from "@/lib/tip-sections";
+
+const CANONICAL = [
+  "HOOK: Discord's message store hit its limits.",
+  "TENSION: Cassandra compactions stalled reads.",
+  "PAYOFF: ScyllaDB cut p99 reads from 40ms to 15ms.",
+  "WHEN_NOT_TO_USE: Small clusters gain little.",
+  "FAILURE_STORY: A hot partition once took a node down.",
+  "TAKEAWAY: Model partitions around access patterns.",
+].join("\n");
+
+describe("normalizeDetailLabels", () => {
+  it("rewrites label variants and splits merged sections", () => {
+    expect(
+      normalizeDetailLabels(
+        "**Hook:** It broke. TENSION: Reads stalled.\n> When not to use: Small data.\nFAILURE: One outage.",
+      ),
+    ).toBe(
+      "HOOK: It broke.\nTENSION: Reads stalled.\nWHEN_NOT_TO_USE: Small data.\nFAILURE_STORY: One outage.",
+    );
+  });
+});
+
+describe("parseTipSections", () => {
+  it("splits the sections and reports missing and leading text", () => {
+    const { sections, missing, preamble } = parseTipSections(
+      "Intro line\nHOOK: It broke.\nPAYOFF: \nTAKEAWAY: Cache it.",
+    );
+
+    expect(sections).toEqual({ hook: "It broke.", takeaway: "Cache it." });
+    expect(missing).toEqual([
+      "TENSION",
+      "PAYOFF",
+      "WHEN_NOT_TO_USE",
+      "FAILURE_STORY",
+    ]);
+    expect(preamble).toBe("Intro line");
+  });
+});
+
+describe("repairTipDetail", () => {
+  it("treats an unlabelled opening as the hook", () => {
+    const detail = CANONICAL.replace("HOOK: ", "");
+    const repaired = repairTipDetail(detail);
+
+    expect(repaired).toEqual({
+      ok: true,
+      detail: CANONICAL,
+      sections: expect.objectContaining({
+        hook: "Discord's message store hit its limits.",
+      }),
+    });
+  });
+
+  it("reports sections it cannot recover", () => {
+    expect(repairTipDetail(CANONICAL.replace(/^TENSION:.*\n/m, ""))).toEqual({
+      ok: false,
+      missing: ["TENSION"],
+    });
+  });
+});
+
+describe("toApiSections", () => {
+  it("parses raw text for tips stored without sections", () => {
+    expect(toApiSections(null, CANONICAL)).toMatchObject({
+      when_not_to_use: "Small clusters gain little.",
+      failure_story: "A hot partition once took a node down.",
+    });
+    expect(toApiSections(null, "HOOK: Only a hook.")).toBeNull();
+  });
+});
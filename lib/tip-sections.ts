@@ -0,0 +1,165 @@
+export const TIP_DETAIL_LABELS = [
+  "HOOK",
+  "TENSION",
+  "PAYOFF",
+  "WHEN_NOT_TO_USE",
+  "FAILURE_STORY",
+  "TAKEAWAY",
+] as const;
+
+export type TipDetailLabel = (typeof TIP_DETAIL_LABELS)[number];
+
+// Mirrors the `TipSections` composite type in prisma/schema.prisma
+export type TipSections = {
+  hook: string;
+  tension: string;
+  payoff: string;
+  whenNotToUse: string;
+  failureStory: string;
+  takeaway: string;
+};
+
+const SECTION_KEYS: Record<TipDetailLabel, keyof TipSections> = {
+  HOOK: "hook",
+  TENSION: "tension",
+  PAYOFF: "payoff",
+  WHEN_NOT_TO_USE: "whenNotToUse",
+  FAILURE_STORY: "failureStory",
+  TAKEAWAY: "takeaway",
+};
+
+// Shorter spellings the model falls back to, e.g. from the schema hint
+const LABEL_ALIASES: Record<string, TipDetailLabel> = {
+  WHEN_NOT: "WHEN_NOT_TO_USE",
+  FAILURE: "FAILURE_STORY",
+};
+
+function labelPattern(label: string): string {
+  return label
+    .split("_")
+    .map((word) => word.toLowerCase())
+    .join("[\\s_-]*");
+}
+
+/**
+ * Rewrites label variants ("**Hook:**", "When not to use -", "WHEN_NOT:")
+ * to the canonical `LABEL:` form and puts each one on its own line.
+ */
+export function normalizeDetailLabels(detail: string): string {
+  const labels = [
+    ...TIP_DETAIL_LABELS.map((label) => [label, label] as const),
+    ...Object.entries(LABEL_ALIASES),
+  ].sort((a, b) => b[0].length - a[0].length);
+
+  let result = detail;
+  for (const [variant, canonical] of labels) {
+    const lineStart = new RegExp(
+      `^[\\s>#*_-]*${labelPattern(variant)}[*_]*\\s*[:\\-–—][*_]*\\s*`,
+      "gim",
+    );
+    result = result.replace(lineStart, `${canonical}: `);
+
+    // Sections merged onto one line: "...at scale. TENSION: They tried..."
+    const midLine = new RegExp(`([^\\n])\\s+(${canonical}):`, "g");
+    result = result.replace(midLine, "$1\n$2:");
+  }
+  return result.trim();
+}
+
+/**
+ * Splits a canonical tip_detail into its labelled sections. Text before the
+ * first label is returned as `preamble`; empty sections count as missing.
+ */
+export function parseTipSections(detail: string): {
+  sections: Partial<TipSections>;
+  missing: TipDetailLabel[];
+  preamble: string;
+} {
+  const labelRegex = new RegExp(`^(${TIP_DETAIL_LABELS.join("|")}):`, "gm");
+  const matches = [...detail.matchAll(labelRegex)];
+  const sections: Partial<TipSections> = {};
+
+  matches.forEach((match, i) => {
+    const label = match[1] as TipDetailLabel;
+    const start = match.index! + match[0].length;
+    const end = matches[i + 1]?.index ?? detail.length;
+    const text = detail.slice(start, end).trim();
+    const key = SECTION_KEYS[label];
+    if (text && !sections[key]) sections[key] = text;
+  });
+
+  return {
+    sections,
+    missing: TIP_DETAIL_LABELS.filter(
+      (label) => !sections[SECTION_KEYS[label]],
+    ),
+    preamble: detail.slice(0, matches[0]?.index ?? detail.length).trim(),
+  };
+}
+
+export function isCompleteSections(
+  sections: Partial<TipSections>,
+): sections is TipSections {
+  return TIP_DETAIL_LABELS.every((label) => !!sections[SECTION_KEYS[label]]);
+}
+
+export function formatTipSections(sections: TipSections): string {
+  return TIP_DETAIL_LABELS.map(
+    (label) => `${label}: ${sections[SECTION_KEYS[label]]}`,
+  ).join("\n");
+}
+
+/**
+ * Normalizes labels and, when the only gap is an unlabelled opening, treats
+ * that opening as the HOOK. Returns the canonical text and sections, or the
+ * labels that are still missing.
+ */
+export function repairTipDetail(
+  detail: string,
+):
+  | { ok: true; detail: string; sections: TipSections }
+  | { ok: false; missing: TipDetailLabel[] } {
+  let parsed = parseTipSections(normalizeDetailLabels(detail));
+
+  const onlyHookMissing =
+    parsed.missing.length === 1 && parsed.missing[0] === "HOOK";
+  if (onlyHookMissing && parsed.preamble) {
+    parsed = {
+      ...parsed,
+      sections: { ...parsed.sections, hook: parsed.preamble },
+      missing: [],
+    };
+  }
+
+  if (!isCompleteSections(parsed.sections)) {
+    return { ok: false, missing: parsed.missing };
+  }
+  return {
+    ok: true,
+    detail: formatTipSections(parsed.sections),
+    sections: parsed.sections,
+  };
+}
+
+/**
+ * API shape of the sections. Falls back to parsing the raw text for tips
+ * stored before sections were persisted.
+ */
+export function toApiSections(
+  sections: TipSections | null,
+  detail: string | null,
+) {
+  const resolved =
+    sections ??
+    (detail ? parseTipSections(normalizeDetailLabels(detail)).sections : null);
+  if (!resolved || !isCompleteSections(resolved)) return null;
+
+  return {
+    hook: resolved.hook,
+    tension: resolved.tension,
+    payoff: resolved.payoff,
+    when_not_to_use: resolved.whenNotToUse,
+    failure_story: resolved.failureStory,
+    takeaway: resolved.takeaway,
+  };
+}
@@ -0,0 +1,166 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import {
+  ProviderChainError,
+  runWithFallback,
+  type ModelOverride,
+  type ProviderAttempt,
+} from "@/lib/ai-provider";
+import { trackUsage, type TokenUsage } from "@/lib/ai-usage";
+import { TIP_FIELD_LIMITS } from "@/lib/tip-salvage";
+import {
+  isCompleteSections,
+  normalizeDetailLabels,
+  parseTipSections,
+  TIP_DETAIL_LABELS,
+  type TipSections,
+} from "@/lib/tip-sections";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from "@/lib/locales";
+
+export type TranslatableTip = {
+  tipText: string;
+  tipSummary: string | null;
+  tipDetail: string | null;
+};
+
+const TranslationSchema = z.object({
+  tip_text: z.string().min(1).max(TIP_FIELD_LIMITS.tip_text),
+  tip_summary: z.string().max(TIP_FIELD_LIMITS.tip_summary).nullable(),
+  tip_detail: z
+    .string()
+    .max(TIP_FIELD_LIMITS.tip_detail)
+    .nullable()
+    .superRefine((detail, ctx) => {
+      if (detail === null) return;
+      const { missing } = parseTipSections(normalizeDetailLabels(detail));
+      if (missing.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Missing sections: ${missing.join(", ")}`,
+        });
+      }
+    }),
+});
+
+export type TipTranslationResult = {
+  tipText: string;
+  tipSummary: string | null;
+  tipDetail: string | null;
+  detailSections: TipSections | null;
+  aiModel: string;
+};
+
+/**
+ * Translates the text fields of a tip. Section labels stay in English so the
+ * translated detail still parses; code snippets are never sent.
+ */
+export async function translateTip(
+  tip: TranslatableTip,
+  locale: string,
+  modelOverride?: ModelOverride,
+): Promise<{
+  translation: TipTranslationResult | null;
+  attempts: ProviderAttempt[];
+  usage: TokenUsage[];
+  error?: string;
+}> {
+  const language = SUPPORTED_LOCALES[locale];
+  const usage: TokenUsage[] = [];
+
+  const prompt = `Translate this developer tip from English to ${language}.
+
+Rules:
+- Keep company names, product names, technology names, numbers and units exactly as written
+- Keep the section labels (${TIP_DETAIL_LABELS.join(", ")}) in English at the start of their lines, followed by a colon
+- Keep tip_text under 60 characters where the language allows
+- Return null for fields that are null in the input
+
+TIP:
+${JSON.stringify(
+  {
+    tip_text: tip.tipText,
+    tip_summary: tip.tipSummary,
+    tip_detail: tip.tipDetail,
+  },
+  null,
+  2,
+)}`;
+
+  try {
+    const { result, target, attempts } = await runWithFallback(
+      async (target, abortSignal) => {
+        const { object } = await trackUsage(usage, target, "translation", () =>
+          generateObject({
+            model: target.model,
+            schema: TranslationSchema,
+            prompt,
+            temperature: 0.2,
+            maxRetries: 0,
+            abortSignal,
+          }),
+        );
+        return object;
+      },
+      modelOverride,
+    );
+
+    const detail = result.tip_detail
+      ? normalizeDetailLabels(result.tip_detail)
+      : null;
+    const sections = detail ? parseTipSections(detail).sections : null;
+
+    return {
+      translation: {
+        tipText: result.tip_text,
+        tipSummary: result.tip_summary,
+        tipDetail: detail,
+        detailSections:
+          sections && isCompleteSections(sections) ? sections : null,
+        aiModel: target.modelId,
+      },
+      attempts,
+      usage,
+    };
+  } catch (error) {
+    console.error(`[translate] Translation to ${locale} failed:`, error);
+    return {
+      translation: null,
+      attempts: error instanceof ProviderChainError ? error.attempts : [],
+      usage,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export type StoredTranslation = {
+  locale: string;
+  tipText: string;
+  tipSummary: string | null;
+  tipDetail: string | null;
+  detailSections: TipSections | null;
+};
+
+/**
+ * Translations of the given tips for one locale, keyed by tip id. English
+ * has no variants, so it always comes back empty.
+ */
+export async function loadTranslations(
+  tipIds: string[],
+  locale: string,
+): Promise<Map<string, StoredTranslation>> {
+  if (locale === DEFAULT_LOCALE || tipIds.length === 0) return new Map();
+
+  const translations = await prisma.tipTranslation.findMany({
+    where: { tipId: { in: tipIds }, locale },
+    select: {
+      tipId: true,
+      locale: true,
+      tipText: true,
+      tipSummary: true,
+      tipDetail: true,
+      detailSections: true,
+    },
+  });
+  return new Map(translations.map(({ tipId, ...rest }) => [tipId, rest]));
+}
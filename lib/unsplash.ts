@@ -33,31 +33,9 @@ interface UnsplashApiResponse {
 
 const UNSPLASH_API_BASE = "https://api.unsplash.com";
 
-const CATEGORY_SEARCH_MAP: Record<string, string> = {
-  JavaScript: "javascript code programming",
-  Python: "python programming code",
-  React: "react programming interface",
-  TypeScript: "typescript code developer",
-  DevOps: "devops server infrastructure",
-  Cloud: "cloud computing server",
-  Docker: "container technology server",
-  Kubernetes: "kubernetes cloud infrastructure",
-  Git: "git version control code",
-  Database: "database server technology",
-  Web: "web development code",
-  AI: "artificial intelligence technology",
-  Security: "cybersecurity technology",
-  Testing: "software testing code",
-  "Node.js": "nodejs server programming",
-  AWS: "aws cloud computing",
-  Go: "golang programming code",
-  Rust: "rust programming code",
-  CSS: "css web design",
-  Mobile: "mobile app development",
-};
-
 export async function getUnsplashImage(
-  category: string
+  category: string,
+  query?: string | null
 ): Promise<UnsplashImage | null> {
   const accessKey = process.env.UNSPLASH_ACCESS_KEY;
 
@@ -66,8 +44,7 @@ export async function getUnsplashImage(
     return null;
   }
 
-  const searchQuery =
-    CATEGORY_SEARCH_MAP[category] || `${category} programming technology`;
+  const searchQuery = query || `${category} programming technology`;
 
   try {
     const response = await fetch(